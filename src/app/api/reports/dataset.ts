@@ -0,0 +1,193 @@
+/**
+ * レポートAPIのモックデータ（サーバー側のみで使う）
+ *
+ * バックエンドがなくても例のページで検索結果を確認できるよう、
+ * 固定のシードで毎回同じレコードをメモリ上に生成する
+ */
+
+import { NextResponse } from 'next/server'
+import { formatIsoDate } from '../../lib/parsers'
+import { compareBySort, type SortItem } from '../../lib/sort'
+import type { UrlError } from '../../lib/url-validation'
+import { CATEGORIES, STATUSES } from '../../examples/report-filter-schema'
+import { DEVICES } from '../../examples/report/form-schema'
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+export const PROGRAM_IDS = ['PRG-001', 'PRG-002', 'PRG-003'] as const
+export const MEDIA_PROPERTY_IDS = ['SITE-001', 'SITE-002'] as const
+
+export type ReportRecord = {
+  id: string
+  title: string
+  status: (typeof STATUSES)[number]
+  category: (typeof CATEGORIES)[number]
+  device: (typeof DEVICES)[number]
+  programId: (typeof PROGRAM_IDS)[number]
+  mediaPropertyId: (typeof MEDIA_PROPERTY_IDS)[number]
+  // 日付はすべて YYYY-MM-DD
+  createdDate: string
+  updatedDate: string
+  conversionDate: string
+  // 承認済みのレコードのみ
+  approvalDate: string | null
+  amount: number
+}
+
+// 日付で検索・並び替えできる項目
+export type ReportDateField =
+  | 'createdDate'
+  | 'updatedDate'
+  | 'conversionDate'
+  | 'approvalDate'
+
+// 一覧APIのレスポンス
+export type ReportListResponse = {
+  items: ReportRecord[]
+  total: number
+  page: number
+  pageSize: number
+  pageCount: number
+}
+
+// パラメータが不正な場合のレスポンス（400）
+export type ReportErrorResponse = {
+  error: 'INVALID_PARAMS'
+  message: string
+  errors: UrlError[]
+}
+
+// =============================================================================
+// データ生成
+// =============================================================================
+
+const RECORD_COUNT = 500
+// 今日から遡って生成する日数
+const DATE_SPAN_DAYS = 180
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const TITLE_WORDS = ['新規', 'リピート', 'キャンペーン', 'セール', '特集']
+
+// シード付きの疑似乱数（mulberry32）。毎回同じデータを生成する
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+function generateReports(count: number): ReportRecord[] {
+  const random = createRandom(42)
+  const pick = <T>(values: readonly T[]): T =>
+    values[Math.floor(random() * values.length)]!
+  const randomInt = (max: number) => Math.floor(random() * (max + 1))
+
+  const now = new Date()
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())
+  const daysAgo = (days: number) => formatIsoDate(new Date(today - days * DAY_MS))
+
+  return Array.from({ length: count }, (_, index) => {
+    const createdDaysAgo = randomInt(DATE_SPAN_DAYS)
+    const updatedDaysAgo = createdDaysAgo - randomInt(Math.min(createdDaysAgo, 30))
+    const status = pick(STATUSES)
+    const category = pick(CATEGORIES)
+
+    return {
+      id: `RPT-${String(index + 1).padStart(4, '0')}`,
+      title: `${pick(TITLE_WORDS)} ${category} #${index + 1}`,
+      status,
+      category,
+      device: pick(DEVICES),
+      programId: pick(PROGRAM_IDS),
+      mediaPropertyId: pick(MEDIA_PROPERTY_IDS),
+      createdDate: daysAgo(createdDaysAgo),
+      updatedDate: daysAgo(updatedDaysAgo),
+      conversionDate: daysAgo(createdDaysAgo + randomInt(3)),
+      approvalDate: status === 'APPROVED' ? daysAgo(updatedDaysAgo) : null,
+      amount: (randomInt(200) + 1) * 500,
+    }
+  })
+}
+
+// 日付は今日から遡るので、リクエストごとに生成する（シードは固定なので内容は同じ）
+export const getReports = () => generateReports(RECORD_COUNT)
+
+// =============================================================================
+// 検索・並び替え・ページ分割
+// =============================================================================
+
+/**
+ * 日付が範囲内かどうか（両端を含む。片側だけの指定も可）
+ */
+export function isInDateRange(
+  value: string | null,
+  range: { from: string | null; to: string | null }
+): boolean {
+  if (range.from === null && range.to === null) return true
+  if (value === null) return false
+  return (
+    (range.from === null || value >= range.from) &&
+    (range.to === null || value <= range.to)
+  )
+}
+
+/**
+ * 日付の新しい順に並び替え（同じ日付はID順）
+ */
+export function sortByDate(
+  items: ReportRecord[],
+  field: ReportDateField
+): ReportRecord[] {
+  return [...items].sort(
+    (a, b) =>
+      (b[field] ?? '').localeCompare(a[field] ?? '') ||
+      a.id.localeCompare(b.id)
+  )
+}
+
+/**
+ * 指定した列で並び替え（同じ値はID順）。並び替えの指定がなければ日付の新しい順
+ */
+export function sortByColumns(
+  items: ReportRecord[],
+  sort: readonly SortItem<keyof ReportRecord>[],
+  fallbackField: ReportDateField
+): ReportRecord[] {
+  if (sort.length === 0) return sortByDate(items, fallbackField)
+  const compare = compareBySort(sort, (report: ReportRecord, key) => report[key])
+  return [...items].sort((a, b) => compare(a, b) || a.id.localeCompare(b.id))
+}
+
+/**
+ * ページ分割して一覧APIのレスポンスにする
+ */
+export function paginate(
+  items: ReportRecord[],
+  page: number,
+  pageSize: number
+): ReportListResponse {
+  const start = (page - 1) * pageSize
+  return {
+    items: items.slice(start, start + pageSize),
+    total: items.length,
+    page,
+    pageSize,
+    pageCount: Math.ceil(items.length / pageSize),
+  }
+}
+
+/**
+ * パラメータが不正な場合の 400 レスポンス
+ */
+export function invalidParamsResponse(errors: UrlError[]) {
+  return NextResponse.json<ReportErrorResponse>(
+    {
+      error: 'INVALID_PARAMS',
+      message: 'クエリパラメータが不正です',
+      errors,
+    },
+    { status: 400 }
+  )
+}
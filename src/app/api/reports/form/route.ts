@@ -0,0 +1,52 @@
+/**
+ * レポート一覧API（モック・useSearchForm の例用）
+ *
+ * GET /api/reports/form?programId=PRG-001&dateFrom=...&devices=MOBILE&rdt=APPROVAL_DATE&sort=-conversionDate
+ *
+ * クエリパラメータはレポートページのURLと同じ形式で、
+ * 同じ reportFormSchema で検証する。ページ指定はなく、先頭の1ページ分を返す
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { createSearchFormValidator } from '../../../lib/search-params'
+import {
+  getDefaultValues,
+  reportFormSchema,
+} from '../../../examples/report/form-schema'
+import {
+  getReports,
+  invalidParamsResponse,
+  isInDateRange,
+  paginate,
+  sortByColumns,
+} from '../dataset'
+
+const PAGE_SIZE = 50
+
+export function GET(request: NextRequest) {
+  // デフォルトの日付は今日を基準にするので、リクエストごとに生成する
+  const validateReportForm = createSearchFormValidator(reportFormSchema, {
+    defaultValues: getDefaultValues(),
+  })
+  const result = validateReportForm(request.nextUrl.searchParams)
+  if (!result.success) return invalidParamsResponse(result.errors)
+
+  const { programId, mediaPropertyId, date, devices, referenceDateType, sort } =
+    result.data
+  const dateField =
+    referenceDateType === 'APPROVAL_DATE' ? 'approvalDate' : 'conversionDate'
+  const dateRange = { from: date.from || null, to: date.to || null }
+
+  const items = getReports().filter(
+    (report) =>
+      (!programId || report.programId === programId) &&
+      (!mediaPropertyId || report.mediaPropertyId === mediaPropertyId) &&
+      devices.includes(report.device) &&
+      isInDateRange(report[dateField], dateRange)
+  )
+
+  return NextResponse.json(
+    paginate(sortByColumns(items, sort, dateField), 1, PAGE_SIZE)
+  )
+}
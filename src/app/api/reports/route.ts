@@ -0,0 +1,63 @@
+/**
+ * レポート一覧API（モック）
+ *
+ * GET /api/reports?keyword=...&dateFrom=...&statuses=...&sort=-updatedDate&page=2
+ *
+ * クエリパラメータはレポートページのURLと同じ形式で、
+ * 同じ createReportFilterSchema のスキーマで検証する（reportLink('/api/reports', filters) で生成できる）
+ * 長い条件を1つにまとめたパラメータ（?s=...）も受け付ける
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { formatIsoDate } from '../../lib/parsers'
+import { createFilterValidator } from '../../lib/search-params'
+import {
+  createReportFilterSchema,
+  reportUrlOptions,
+} from '../../examples/report-filter-schema'
+import {
+  getReports,
+  invalidParamsResponse,
+  isInDateRange,
+  paginate,
+  sortByColumns,
+} from './dataset'
+
+export function GET(request: NextRequest) {
+  // デフォルトの日付は今日を基準にするので、リクエストごとに生成する
+  const validateReportFilters = createFilterValidator(
+    createReportFilterSchema(),
+    reportUrlOptions
+  )
+  const result = validateReportFilters(request.nextUrl.searchParams)
+  if (!result.success) return invalidParamsResponse(result.errors)
+
+  const {
+    keyword,
+    date,
+    dateType,
+    statuses,
+    categories,
+    sort,
+    page,
+    pageSize,
+  } = result.data
+  const dateField = dateType === 'UPDATED_DATE' ? 'updatedDate' : 'createdDate'
+  const dateRange = {
+    from: date.from ? formatIsoDate(date.from) : null,
+    to: date.to ? formatIsoDate(date.to) : null,
+  }
+
+  const items = getReports().filter(
+    (report) =>
+      report.title.includes(keyword) &&
+      statuses.includes(report.status) &&
+      categories.includes(report.category) &&
+      isInDateRange(report[dateField], dateRange)
+  )
+
+  return NextResponse.json(
+    paginate(sortByColumns(items, sort, dateField), page, pageSize)
+  )
+}
@@ -4,10 +4,17 @@ interface TextInputProps {
   label: string
   value: string | null
   onChange: (value: string | null) => void
+  onBlur?: () => void
   placeholder?: string
 }
 
-export function TextInput({ label, value, onChange, placeholder }: TextInputProps) {
+export function TextInput({
+  label,
+  value,
+  onChange,
+  onBlur,
+  placeholder,
+}: TextInputProps) {
   return (
     <div className={styles.filterGroup}>
       <label className={styles.filterLabel}>{label}</label>
@@ -15,6 +22,7 @@ export function TextInput({ label, value, onChange, placeholder }: TextInputProp
         type="text"
         value={value || ''}
         onChange={(e) => onChange(e.target.value || null)}
+        onBlur={onBlur}
         placeholder={placeholder}
         className={styles.textInput}
       />
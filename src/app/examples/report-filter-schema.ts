@@ -0,0 +1,142 @@
+/**
+ * レポート検索のフィルタースキーマ（useFilters 使用サンプル用）
+ *
+ * クライアント（report-sample.tsx）とサーバー（/api/reports）の両方で使うため、
+ * 'use client' のモジュールから分離している
+ */
+
+import type { FilterSchema, InferState } from '../lib/filter-schema'
+import type { DateRangeRules } from '../lib/date-rules'
+import { createFilterLink } from '../lib/filter-link'
+import type { FilterUrlOptions } from '../lib/compact-url'
+
+// =============================================================================
+// 定数
+// =============================================================================
+
+export const STATUSES = ['PENDING', 'APPROVED', 'REJECTED'] as const
+export const CATEGORIES = ['TYPE_A', 'TYPE_B'] as const
+export const DATE_TYPES = ['CREATED_DATE', 'UPDATED_DATE'] as const
+export const PAGE_SIZES = [20, 50, 100] as const
+export const SORT_KEYS = [
+  'title',
+  'status',
+  'category',
+  'createdDate',
+  'updatedDate',
+] as const
+
+// 期間のルール（APIは1年を超える期間・未来の日付を受け付けない）
+// URLで開始日と終了日が逆なら入れ替え、未来の日付は今日にする。366日を超える期間は無効
+export const DATE_RANGE_RULES = {
+  order: 'correct',
+  maxDays: { days: 366, mode: 'error' },
+  noFuture: 'correct',
+} as const satisfies DateRangeRules
+
+// =============================================================================
+// フィルタースキーマ
+// =============================================================================
+
+// ヘルパー関数（URLの日付と同じくUTCの0時で扱う）
+const getDefaultDateFrom = (): Date => {
+  const today = new Date()
+  return new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1)) // 月初
+}
+
+const getDefaultDateTo = (): Date => {
+  const today = new Date()
+  return new Date(
+    Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())
+  )
+}
+
+// スキーマを定義するだけで、URL同期が自動的に行われる
+// デフォルト値と同じ値はURLに書き込まれない
+// デフォルトの日付は今日を基準にするので、使う側で生成する（APIではリクエストごと）
+export function createReportFilterSchema() {
+  return {
+    // 単一選択（セレクトボックス）
+    // 入力中はURLを書き換えず、300ms 入力が止まってから反映する
+    keyword: { type: 'string', default: '', debounceMs: 300 },
+
+    // 日付範囲（URLでは dateFrom / dateTo の YYYY-MM-DD 形式で管理）
+    date: {
+      type: 'dateRange',
+      default: { from: getDefaultDateFrom(), to: getDefaultDateTo() },
+      rules: DATE_RANGE_RULES,
+    },
+
+    // 単一選択（ラジオボタン）。URLでは短いキー（?dt=UPDATED_DATE）
+    dateType: {
+      type: 'stringLiteral',
+      options: DATE_TYPES,
+      default: 'CREATED_DATE',
+      urlKey: 'dt',
+    },
+
+    // 複数選択（チェックボックス）。デフォルトは全選択
+    // 全選択は絞り込みなしと同じなので、APIには送らない
+    statuses: {
+      type: 'stringLiteralArray',
+      options: STATUSES,
+      default: STATUSES,
+      api: { omitAllSelected: true },
+    },
+    categories: {
+      type: 'stringLiteralArray',
+      options: CATEGORIES,
+      default: CATEGORIES,
+      urlKey: 'cat',
+      api: { omitAllSelected: true },
+    },
+
+    // 並び替え（?sort=-updatedDate,status。未指定は日付の新しい順）
+    // 一覧にない列を含むURLは無視する
+    sort: { type: 'sort', options: SORT_KEYS },
+
+    // ページネーション（範囲外の値は無視され、APIでは 400 になる）
+    // ページ送りは履歴に残し（戻る/進むで前のページへ）、先頭にスクロールする
+    page: {
+      type: 'number',
+      min: 1,
+      default: 1,
+      history: 'push',
+      scroll: true,
+    },
+    pageSize: { type: 'numberLiteral', options: PAGE_SIZES, default: 50 },
+  } as const satisfies FilterSchema
+}
+
+export type ReportFilterSchema = ReturnType<typeof createReportFilterSchema>
+
+// =============================================================================
+// URL形式・リンク生成
+// =============================================================================
+
+// ページ・リンク・APIで共通のURL形式
+// 選択肢やキーワードが多く通常の形式で1000文字を超える場合は ?s=... にまとめる
+export const reportUrlOptions = {
+  compact: { maxLength: 1000 },
+} as const satisfies FilterUrlOptions
+
+/**
+ * フィルターを適用したレポートページへのリンク
+ * クエリ文字列を手で組み立てずにこれを使う（同じスキーマから生成するので、
+ * URLキーやデフォルト値の扱いが useFilters と一致する）
+ * デフォルトの日付を今日に合わせるため、呼び出しごとにスキーマを生成する
+ *
+ * @example
+ * <Link href={reportLink('/reports', { statuses: ['PENDING'], dateType: 'UPDATED_DATE' })}>
+ *   承認待ち（更新日順）
+ * </Link>
+ * // => /reports?dt=UPDATED_DATE&statuses=PENDING
+ */
+export const reportLink = (
+  pathname: string,
+  values: Partial<InferState<ReportFilterSchema>> = {}
+) =>
+  createFilterLink(createReportFilterSchema(), reportUrlOptions)(
+    pathname,
+    values
+  )
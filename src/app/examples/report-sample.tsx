@@ -6,132 +6,140 @@
  * react-hook-form を使わず、useFilters のみでURL同期を実現する例
  */
 
-import { useFilters, type FilterSchema } from '../hooks/useFilters'
+import { useState } from 'react'
+import { formatIsoDate, parseIsoDate } from '../hooks/useFilters'
+import {
+  useFilteredQuery,
+  type FilteredQueryContext,
+} from '../hooks/useFilteredQuery'
+import { usePagination } from '../hooks/usePagination'
+import { useFilterUndo } from '../hooks/useUndo'
+import type { InferState } from '../lib/filter-schema'
+import { toSortIndicator } from '../lib/sort'
+import type {
+  ReportErrorResponse,
+  ReportListResponse,
+} from '../api/reports/dataset'
+import {
+  CATEGORIES,
+  DATE_TYPES,
+  PAGE_SIZES,
+  SORT_KEYS,
+  STATUSES,
+  createReportFilterSchema,
+  reportLink,
+  reportUrlOptions,
+  type ReportFilterSchema,
+} from './report-filter-schema'
 
 // =============================================================================
-// 1. 型定義
+// 1. ヘルパー関数
 // =============================================================================
 
-export const STATUSES = ['PENDING', 'APPROVED', 'REJECTED'] as const
-export const CATEGORIES = ['TYPE_A', 'TYPE_B'] as const
-export const DATE_TYPES = ['CREATED_DATE', 'UPDATED_DATE'] as const
-
-// =============================================================================
-// 2. フィルタースキーマ定義
-// =============================================================================
-
-// スキーマを定義するだけで、URL同期が自動的に行われる
-const reportFilterSchema = {
-  // 単一選択（セレクトボックス）
-  keyword: { type: 'string' },
-
-  // 日付範囲（ISO形式の文字列で管理）
-  dateFrom: { type: 'string' },
-  dateTo: { type: 'string' },
-
-  // 単一選択（ラジオボタン）
-  dateType: { type: 'stringLiteral', options: DATE_TYPES },
-
-  // 複数選択（チェックボックス）
-  statuses: { type: 'stringLiteralArray', options: STATUSES },
-  categories: { type: 'stringLiteralArray', options: CATEGORIES },
+// input[type=date] 用の文字列に変換（未設定は空文字列）
+const toDateString = (date: Date | null): string =>
+  date ? formatIsoDate(date) : ''
+
+// 並び替えできる列の見出し
+const SORT_LABELS: Record<(typeof SORT_KEYS)[number], string> = {
+  title: 'タイトル',
+  status: 'ステータス',
+  category: 'カテゴリ',
+  createdDate: '作成日',
+  updatedDate: '更新日',
+}
 
-  // ページネーション
-  page: { type: 'integer' },
-  pageSize: { type: 'integer' },
-} as const satisfies FilterSchema
+// レポート一覧を取得（モックAPI。クエリパラメータはページのURLと同じ形式）
+const fetchReports = async (
+  filters: InferState<ReportFilterSchema>,
+  { signal }: FilteredQueryContext
+): Promise<ReportListResponse> => {
+  const response = await fetch(reportLink('/api/reports', filters), { signal })
+  if (!response.ok) {
+    const { message } = (await response.json()) as ReportErrorResponse
+    throw new Error(message)
+  }
+  return response.json()
+}
 
 // =============================================================================
-// 3. カスタムフック（ドメイン固有のロジックをラップ）
+// 2. カスタムフック（ドメイン固有のロジックをラップ）
 // =============================================================================
 
 export const useReportFilters = () => {
-  const {
-    filters,
-    setFilter,
-    toggleArrayItem,
-    clearFilters,
-    clearFilter,
-  } = useFilters(reportFilterSchema)
-
-  // デフォルト値の適用（nullの場合のフォールバック）
-  const filtersWithDefaults = {
-    keyword: filters.keyword ?? '',
-    dateFrom: filters.dateFrom ?? getDefaultDateFrom(),
-    dateTo: filters.dateTo ?? getDefaultDateTo(),
-    dateType: filters.dateType ?? 'CREATED_DATE',
-    statuses: filters.statuses.length > 0
-      ? filters.statuses
-      : [...STATUSES], // デフォルトは全選択
-    categories: filters.categories.length > 0
-      ? filters.categories
-      : [...CATEGORIES], // デフォルトは全選択
-    page: filters.page ?? 1,
-    pageSize: filters.pageSize ?? 50,
-  }
+  // デフォルトの日付はページを開いた日を基準にする（再レンダリングでは作り直さない）
+  const [reportFilterSchema] = useState(createReportFilterSchema)
+  const query = useFilteredQuery(reportFilterSchema, fetchReports, {
+    keepPreviousData: true,
+    ...reportUrlOptions,
+  })
+  const { filters, clearFilters, flush, toApiParams, urlErrors } = query
+  const { data, error, isLoading, isPreviousData } = query
 
-  // 日付範囲を設定するヘルパー
-  const setDateRange = (from: Date, to: Date) => {
-    setFilter('dateFrom', from.toISOString().split('T')[0])
-    setFilter('dateTo', to.toISOString().split('T')[0])
-  }
+  // 絞り込み条件を変えたらページを1に戻し、件数が分かったら範囲外のページを補正する
+  // setFilter などはページのリセット付きのものを使う
+  const pagination = usePagination(reportFilterSchema, query, {
+    total: isPreviousData ? undefined : data?.total,
+  })
+  const { setFilter, toggleArrayItem, toggleSort, clearFilter } = pagination
 
-  // ページを変更
-  const setPage = (page: number) => {
-    setFilter('page', page)
-  }
+  // 誤ってクリア・チェックを外した場合に取り消せるようにする（ページ番号も含めて戻す）
+  const undoRedo = useFilterUndo(reportFilterSchema, query)
 
-  // API呼び出し用にフィルターを変換
-  const toApiParams = () => ({
-    keyword: filtersWithDefaults.keyword || undefined,
-    dateFrom: filtersWithDefaults.dateFrom,
-    dateTo: filtersWithDefaults.dateTo,
-    dateType: filtersWithDefaults.dateType,
-    statuses: filtersWithDefaults.statuses,
-    categories: filtersWithDefaults.categories,
-    page: filtersWithDefaults.page,
-    pageSize: filtersWithDefaults.pageSize,
-  })
+  // 日付範囲を設定するヘルパー（null の側はデフォルト値に戻る）
+  const setDateRange = (from: Date | null, to: Date | null) => {
+    setFilter('date', { from, to })
+  }
 
   return {
-    // 状態
-    filters: filtersWithDefaults,
-    rawFilters: filters,
+    // 状態（スキーマのデフォルト値が適用済み）
+    filters,
 
     // アクション
     setFilter,
     toggleArrayItem,
+    toggleSort,
     clearFilters,
     clearFilter,
     setDateRange,
-    setPage,
+    flush,
+
+    // ページネーション（goTo / next / prev / hasNext / pageCount / setPageSize など）
+    pagination,
+
+    // 取り消し・やり直し（undo / redo / canUndo / canRedo / handleKeyDown）
+    undoRedo,
 
-    // ユーティリティ
+    // ユーティリティ（APIパラメータはスキーマの api オプションから組み立てる）
     toApiParams,
-  }
-}
 
-// ヘルパー関数
-const getDefaultDateFrom = (): string => {
-  const date = new Date()
-  date.setDate(1) // 月初
-  return date.toISOString().split('T')[0]!
-}
+    // URLの無効な値（無視・補正した値。日付範囲のルール違反を含む）
+    urlErrors,
 
-const getDefaultDateTo = (): string => {
-  return new Date().toISOString().split('T')[0]!
+    // 検索結果（次のページの取得中は前の結果を表示し続ける）
+    reports: data,
+    error,
+    isLoading,
+    isPreviousData,
+  }
 }
 
 // =============================================================================
-// 4. 使用例（ページコンポーネント）
+// 3. 使用例（ページコンポーネント）
 // =============================================================================
 
 /**
  * useFilters を使った実装:
- * - フィルター変更が即座にURLに反映
+ * - フィルター変更が即座にURLに反映（キーワードは入力が止まってから）
  * - URLを共有してフィルター状態を共有可能
  * - ページリロードでもフィルターが維持される
- * - ブラウザの戻る/進むでフィルター履歴をナビゲート可能
+ * - 見出しをクリックすると 昇順 → 降順 → なし の順に並び替え（複数列を組み合わせ可能）
+ * - ブラウザの戻る/進むでページ送りの履歴をナビゲート可能
+ *   （キーワード入力やチェックボックスは履歴を置き換えるので1操作ずつ戻らない）
+ * - 検索結果はフィルター状態ごとにキャッシュされ、戻ったときはすぐに表示される
+ * - フィルターパネルで Ctrl+Z / Ctrl+Shift+Z で変更を取り消し・やり直し
+ *   （キーワードの続けての入力は1つの操作にまとめる）
+ * - URLの無効な値（1年を超える期間など）は無視・補正し、その内容を通知する
  */
 
 export const ReportPageExample = () => {
@@ -139,24 +147,53 @@ export const ReportPageExample = () => {
     filters,
     setFilter,
     toggleArrayItem,
-    setPage,
+    toggleSort,
+    setDateRange,
     clearFilters,
+    flush,
+    pagination,
+    undoRedo,
     toApiParams,
+    urlErrors,
+    reports,
+    error,
+    isLoading,
+    isPreviousData,
   } = useReportFilters()
 
   return (
     <div className="space-y-6 p-4">
       <h1 className="text-2xl font-bold">レポート検索</h1>
 
-      {/* フィルターセクション */}
-      <div className="space-y-4 rounded-lg border p-4">
+      {/* URLの無効なパラメータの通知（古いリンク・手で編集されたリンク） */}
+      {urlErrors.length > 0 && (
+        <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+          <p className="font-bold">
+            このリンクの一部の条件は無効なため、無視または補正されました
+          </p>
+          <ul className="mt-2 list-inside list-disc">
+            {urlErrors.map((error) => (
+              <li key={error.urlKey}>
+                {error.urlKey}={error.value}: {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* フィルターセクション（キーボードでの取り消し・やり直しを受け付ける） */}
+      <div
+        className="space-y-4 rounded-lg border p-4"
+        onKeyDown={undoRedo.handleKeyDown}
+      >
         {/* キーワード検索 */}
         <div>
           <label className="block font-bold">キーワード</label>
           <input
             type="text"
             value={filters.keyword}
-            onChange={(e) => setFilter('keyword', e.target.value || null)}
+            onChange={(e) => setFilter('keyword', e.target.value)}
+            onBlur={flush}
             placeholder="検索キーワード"
             className="w-64 rounded border p-2"
           />
@@ -168,8 +205,10 @@ export const ReportPageExample = () => {
             <label className="block font-bold">開始日</label>
             <input
               type="date"
-              value={filters.dateFrom}
-              onChange={(e) => setFilter('dateFrom', e.target.value || null)}
+              value={toDateString(filters.date.from)}
+              onChange={(e) =>
+                setDateRange(parseIsoDate(e.target.value), filters.date.to)
+              }
               className="rounded border p-2"
             />
           </div>
@@ -177,8 +216,10 @@ export const ReportPageExample = () => {
             <label className="block font-bold">終了日</label>
             <input
               type="date"
-              value={filters.dateTo}
-              onChange={(e) => setFilter('dateTo', e.target.value || null)}
+              value={toDateString(filters.date.to)}
+              onChange={(e) =>
+                setDateRange(filters.date.from, parseIsoDate(e.target.value))
+              }
               className="rounded border p-2"
             />
           </div>
@@ -236,13 +277,29 @@ export const ReportPageExample = () => {
           </div>
         </div>
 
-        {/* クリアボタン */}
-        <button
-          onClick={clearFilters}
-          className="rounded bg-gray-200 px-4 py-2 hover:bg-gray-300"
-        >
-          フィルターをクリア
-        </button>
+        {/* クリア・取り消し・やり直し */}
+        <div className="flex gap-2">
+          <button
+            onClick={clearFilters}
+            className="rounded bg-gray-200 px-4 py-2 hover:bg-gray-300"
+          >
+            フィルターをクリア
+          </button>
+          <button
+            onClick={undoRedo.undo}
+            disabled={!undoRedo.canUndo}
+            className="rounded border px-4 py-2 disabled:opacity-50"
+          >
+            元に戻す
+          </button>
+          <button
+            onClick={undoRedo.redo}
+            disabled={!undoRedo.canRedo}
+            className="rounded border px-4 py-2 disabled:opacity-50"
+          >
+            やり直す
+          </button>
+        </div>
       </div>
 
       {/* 現在のURL状態を表示（デバッグ用） */}
@@ -262,37 +319,117 @@ export const ReportPageExample = () => {
         <pre className="mt-2 overflow-auto rounded bg-white p-2 text-sm">
           {JSON.stringify(toApiParams(), null, 2)}
         </pre>
+        <p className="mt-2 break-all text-sm text-gray-600">
+          クエリ文字列: {toApiParams('searchParams').toString()}
+        </p>
+      </div>
+
+      {/* 検索結果（/api/reports のモックデータ） */}
+      <div className="rounded-lg border p-4">
+        <h2 className="font-bold">
+          検索結果{reports && ` （${reports.total}件）`}
+          {isLoading && (
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              読み込み中...
+            </span>
+          )}
+        </h2>
+        {error ? (
+          <p className="mt-2 text-sm text-red-600">
+            取得に失敗しました: {error instanceof Error ? error.message : ''}
+          </p>
+        ) : (
+          reports && (
+            <table
+              className={`mt-2 w-full text-sm ${isPreviousData ? 'opacity-50' : ''}`}
+            >
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-1">ID</th>
+                  {SORT_KEYS.map((key) => (
+                    <th key={key} className="p-1">
+                      <button
+                        type="button"
+                        onClick={() => toggleSort('sort', key)}
+                        className="hover:underline"
+                      >
+                        {SORT_LABELS[key]}
+                        {toSortIndicator(filters.sort, key)}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {reports.items.map((report) => (
+                  <tr key={report.id} className="border-b">
+                    <td className="p-1">{report.id}</td>
+                    <td className="p-1">{report.title}</td>
+                    <td className="p-1">{report.status}</td>
+                    <td className="p-1">{report.category}</td>
+                    <td className="p-1">{report.createdDate}</td>
+                    <td className="p-1">{report.updatedDate}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+        )}
       </div>
 
       {/* ページネーション例 */}
       <div className="flex items-center gap-2">
         <button
-          onClick={() => setPage(Math.max(1, filters.page - 1))}
-          disabled={filters.page <= 1}
+          onClick={pagination.prev}
+          disabled={!pagination.hasPrev}
           className="rounded border px-3 py-1 disabled:opacity-50"
         >
           前へ
         </button>
-        <span>ページ {filters.page}</span>
+        <span>
+          ページ {pagination.page}
+          {pagination.pageCount !== undefined && ` / ${pagination.pageCount}`}
+        </span>
         <button
-          onClick={() => setPage(filters.page + 1)}
-          className="rounded border px-3 py-1"
+          onClick={pagination.next}
+          disabled={!pagination.hasNext}
+          className="rounded border px-3 py-1 disabled:opacity-50"
         >
           次へ
         </button>
+        <select
+          value={pagination.pageSize}
+          onChange={(e) => pagination.setPageSize(Number(e.target.value))}
+          className="rounded border p-1"
+        >
+          {PAGE_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {size}件
+            </option>
+          ))}
+        </select>
       </div>
     </div>
   )
 }
 
 // =============================================================================
-// 5. URL例
+// 4. URL例
 // =============================================================================
 
 /**
  * 生成されるURL例:
  *
- * /reports?keyword=test&dateFrom=2024-01-01&dateTo=2024-01-31&dateType=CREATED_DATE&statuses=PENDING&statuses=APPROVED&categories=TYPE_A&page=1&pageSize=50
+ * /reports?keyword=test&dateFrom=2024-01-01&dateTo=2024-01-31&dt=UPDATED_DATE&statuses=PENDING,APPROVED&cat=TYPE_A&sort=-updatedDate,status&page=2
+ *
+ * - デフォルト値と同じ項目（pageSize=50 など）はURLに含まれない
+ * - dateType / categories は urlKey で短いキー（dt / cat）になる
+ * - 条件が多く1000文字を超える場合は /reports?s=1.xxxx のように1つにまとめる
+ *   （通常の形式のリンクも引き続き開ける）
+ * - sort は優先順のカンマ区切りで、"-" が付いた列は降順
  *
  * このURLを他の人に共有すると、同じフィルター状態でページを開ける
+ *
+ * 他のページからリンクする場合は、クエリ文字列を手で組み立てずに
+ * report-filter-schema.ts の reportLink を使う
  */
@@ -1,5 +1,13 @@
 import { z } from "zod";
 import { startOfMonth } from "date-fns";
+import {
+  sortSchema,
+  withApiParam,
+  withDateRangeRules,
+  withUrlKey,
+} from "../../lib/zod-parsers";
+import { toEndOfDayIsoDateTime, toIsoDateTime } from "../../lib/api-params";
+import { DATE_RANGE_RULES } from "../report-filter-schema";
 
 // =============================================================================
 // 定数
@@ -7,33 +15,57 @@ import { startOfMonth } from "date-fns";
 
 export const DEVICES = ["DESKTOP", "MOBILE"] as const;
 export const REFERENCE_DATE_TYPES = ["CONVERSION_DATE", "APPROVAL_DATE"] as const;
+export const SORT_KEYS = [
+  "programId",
+  "mediaPropertyId",
+  "device",
+  "conversionDate",
+  "approvalDate",
+] as const;
+
+const DATE_REQUIRED_MESSAGE = "日付を入力してください";
 
 // =============================================================================
-// Zodスキーマ（URL同期用 - フラットな構造）
+// Zodスキーマ（URL同期用）
 // =============================================================================
 
 /**
  * レポートフォームのスキーマ
  *
  * ポイント:
- * - 日付はフラット化（date.from → dateFrom）
+ * - 日付はAPIと同じネスト構造（date.from）のまま。URLでは dateFrom / dateTo に展開される
+ * - 日付は空にできない。期間のルールは withDateRangeRules で指定する
  * - Date型ではなくstring型（ISO文字列）
- * - transformは使わない（URL同期のため）
+ * - 長いキーは withUrlKey で短いURLキーにする（?mp=SITE-001&rdt=APPROVAL_DATE）
+ * - APIでの形式は withApiParam で指定する（日付は時刻付き、全選択のデバイスは送らない）
+ * - 並び替えは sortSchema（URLでは ?sort=-conversionDate,programId）
  */
 export const reportFormSchema = z.object({
   // セレクトボックス
   programId: z.string().optional(),
-  mediaPropertyId: z.string().optional(),
+  mediaPropertyId: withUrlKey(z.string(), "mp").optional(),
 
   // 日付（ISO文字列: "2024-01-01"）
-  dateFrom: z.string(),
-  dateTo: z.string(),
+  date: withDateRangeRules(
+    z.object({
+      from: withApiParam(z.string().date(DATE_REQUIRED_MESSAGE), {
+        transform: toIsoDateTime,
+      }),
+      to: withApiParam(z.string().date(DATE_REQUIRED_MESSAGE), {
+        transform: toEndOfDayIsoDateTime,
+      }),
+    }),
+    DATE_RANGE_RULES
+  ),
 
   // デバイス（複数選択）
-  devices: z.array(z.enum(DEVICES)),
+  devices: withApiParam(z.array(z.enum(DEVICES)), { omitAllSelected: true }),
 
   // 基準日（単一選択）
-  referenceDateType: z.enum(REFERENCE_DATE_TYPES),
+  referenceDateType: withUrlKey(z.enum(REFERENCE_DATE_TYPES), "rdt"),
+
+  // 並び替え（未指定は基準日の新しい順）
+  sort: sortSchema(SORT_KEYS),
 });
 
 export type ReportFormValues = z.infer<typeof reportFormSchema>;
@@ -49,10 +81,13 @@ const toDateString = (date: Date): string => {
 export const getDefaultValues = (): ReportFormValues => ({
   programId: "",
   mediaPropertyId: "",
-  dateFrom: toDateString(startOfMonth(new Date())),
-  dateTo: toDateString(new Date()),
+  date: {
+    from: toDateString(startOfMonth(new Date())),
+    to: toDateString(new Date()),
+  },
   devices: [...DEVICES],
   referenceDateType: "CONVERSION_DATE",
+  sort: [],
 });
 
 // =============================================================================
@@ -64,11 +99,10 @@ export const getDefaultValues = (): ReportFormValues => ({
  * Calendarコンポーネントに渡す際に使用
  */
 export const toDateRange = (
-  dateFrom: string,
-  dateTo: string
+  date: ReportFormValues["date"]
 ): { from: Date; to: Date | undefined } => ({
-  from: new Date(dateFrom),
-  to: dateTo ? new Date(dateTo) : undefined,
+  from: new Date(date.from),
+  to: date.to ? new Date(date.to) : undefined,
 });
 
 /**
@@ -77,7 +111,7 @@ export const toDateRange = (
  */
 export const fromDateRange = (
   range: { from?: Date; to?: Date } | undefined
-): { dateFrom: string; dateTo: string } => ({
-  dateFrom: range?.from ? toDateString(range.from) : "",
-  dateTo: range?.to ? toDateString(range.to) : "",
+): ReportFormValues["date"] => ({
+  from: range?.from ? toDateString(range.from) : "",
+  to: range?.to ? toDateString(range.to) : "",
 });
@@ -6,12 +6,26 @@
  * 実際のプロジェクトを想定した構造:
  * - form-schema.ts: Zodスキーマとデフォルト値
  * - report-form.tsx: フォームUI（Presentational）
+ * - preset-menu.tsx: 保存した検索条件の一覧（Presentational）
  * - page.tsx: useSearchFormでURL同期（Container）
  */
 
+import { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { useSearchForm } from "../../hooks/useSearchForm";
-import { reportFormSchema, getDefaultValues } from "./form-schema";
+import { useSearchFormPresets } from "../../hooks/usePresets";
+import { toSortIndicator } from "../../lib/sort";
+import type {
+  ReportErrorResponse,
+  ReportListResponse,
+} from "../../api/reports/dataset";
+import {
+  reportFormSchema,
+  getDefaultValues,
+  SORT_KEYS,
+} from "./form-schema";
 import { ReportForm } from "./report-form";
+import { PresetMenu } from "./preset-menu";
 
 // サンプル用のオプションデータ
 const programOptions = [
@@ -25,11 +39,74 @@ const mediaPropertyOptions = [
   { label: "サイトB", value: "SITE-002" },
 ];
 
+// 並び替えできる列の見出し
+const SORT_LABELS: Record<(typeof SORT_KEYS)[number], string> = {
+  programId: "プログラム",
+  mediaPropertyId: "メディア",
+  device: "デバイス",
+  conversionDate: "成果日",
+  approvalDate: "承認日",
+};
+
+/**
+ * 検索済みの条件（URL）でレポート一覧を取得
+ * モックAPIはページのURLと同じクエリパラメータを受け付ける
+ */
+const useReportResults = () => {
+  const query = useSearchParams().toString();
+  const [result, setResult] = useState<{
+    data?: ReportListResponse;
+    error?: string;
+  }>({});
+
+  useEffect(() => {
+    // 条件が変わったら前のリクエストは中断する
+    const controller = new AbortController();
+    fetch(`/api/reports/form?${query}`, { signal: controller.signal })
+      .then(async (response) => {
+        if (!response.ok) {
+          const { message } = (await response.json()) as ReportErrorResponse;
+          setResult({ error: message });
+          return;
+        }
+        setResult({ data: (await response.json()) as ReportListResponse });
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setResult({ error: "通信に失敗しました" });
+        }
+      });
+    return () => controller.abort();
+  }, [query]);
+
+  return result;
+};
+
 export default function ReportPage() {
   // useSearchForm でフォームとURL同期を統合
-  const { form, search, clearFilters } = useSearchForm(reportFormSchema, {
-    defaultValues: getDefaultValues(),
-  });
+  // 並び替え（見出しのクリック）は検索ボタンを待たずにURLへ反映される
+  const defaultValues = getDefaultValues();
+  const searchForm = useSearchForm(reportFormSchema, { defaultValues });
+  const {
+    form,
+    search,
+    clearFilters,
+    toggleSort,
+    urlState,
+    unappliedChanges,
+    revertToUrl,
+    urlErrors,
+    toApiParams,
+  } = searchForm;
+
+  // 検索済みの条件に名前を付けて保存（このブラウザの localStorage）
+  // 日付がデフォルト（今月）のまま保存した条件は、適用した日の今月になる
+  const { presets, savePreset, applyPreset, renamePreset, deletePreset } =
+    useSearchFormPresets(reportFormSchema, searchForm, {
+      storageKey: "report-form-presets",
+      defaultValues,
+    });
+  const results = useReportResults();
 
   return (
     <div className="min-h-screen bg-gray-50 p-6">
@@ -38,17 +115,47 @@ export default function ReportPage() {
           レポート（useSearchForm 使用例）
         </h1>
 
+        {/* URLの無効なパラメータの通知（古いリンク・手で編集されたリンク） */}
+        {urlErrors.length > 0 && (
+          <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+            <p className="font-bold">
+              このリンクの一部の条件は無効なため、無視または補正されました
+            </p>
+            <ul className="mt-2 list-inside list-disc">
+              {urlErrors.map((error) => (
+                <li key={error.urlKey}>
+                  {error.urlKey}={error.value}: {error.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* フォーム */}
         <div className="mb-6 rounded-lg bg-white p-6 shadow">
           <ReportForm
             form={form}
             onSubmit={search}
             onClear={clearFilters}
+            onRevert={revertToUrl}
+            unappliedChanges={unappliedChanges}
             programOptions={programOptions}
             mediaPropertyOptions={mediaPropertyOptions}
           />
         </div>
 
+        {/* 保存した検索条件 */}
+        <div className="mb-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 font-bold">保存した検索条件</h2>
+          <PresetMenu
+            presets={presets}
+            onSave={savePreset}
+            onApply={applyPreset}
+            onRename={renamePreset}
+            onDelete={deletePreset}
+          />
+        </div>
+
         {/* 現在の状態表示 */}
         <div className="rounded-lg bg-white p-6 shadow">
           <h2 className="mb-4 font-bold">フォーム状態 / URLパラメータ</h2>
@@ -60,6 +167,57 @@ export default function ReportPage() {
           </p>
         </div>
 
+        {/* 検索結果（/api/reports/form のモックデータ） */}
+        <div className="mt-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 font-bold">
+            検索結果{results.data && ` （${results.data.total}件）`}
+          </h2>
+          {results.error && (
+            <p className="text-sm text-red-600">{results.error}</p>
+          )}
+          {results.data && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-1">ID</th>
+                  {SORT_KEYS.map((key) => (
+                    <th key={key} className="p-1">
+                      <button
+                        type="button"
+                        onClick={() => toggleSort("sort", key)}
+                        className="hover:underline"
+                      >
+                        {SORT_LABELS[key]}
+                        {toSortIndicator(urlState.sort, key)}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {results.data.items.map((report) => (
+                  <tr key={report.id} className="border-b">
+                    <td className="p-1">{report.id}</td>
+                    <td className="p-1">{report.programId}</td>
+                    <td className="p-1">{report.mediaPropertyId}</td>
+                    <td className="p-1">{report.device}</td>
+                    <td className="p-1">{report.conversionDate}</td>
+                    <td className="p-1">{report.approvalDate ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* API パラメータ確認（検索済みの条件から組み立て） */}
+        <div className="mt-6 rounded-lg bg-white p-6 shadow">
+          <h2 className="mb-4 font-bold">API呼び出しパラメータ</h2>
+          <pre className="overflow-auto rounded bg-gray-100 p-4 text-sm">
+            {JSON.stringify(toApiParams(), null, 2)}
+          </pre>
+        </div>
+
         {/* 使い方説明 */}
         <div className="mt-6 rounded-lg border border-blue-200 bg-blue-50 p-4">
           <h3 className="mb-2 font-bold text-blue-800">使い方</h3>
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+type PresetItem = {
+  id: string;
+  name: string;
+  // 無効になった条件（保存後にスキーマが変わった場合など）
+  errors: unknown[];
+};
+
+type PresetMenuProps = {
+  presets: PresetItem[];
+  onSave: (name: string) => void;
+  onApply: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+// =============================================================================
+// コンポーネント
+// =============================================================================
+
+/**
+ * 保存した検索条件（プリセット）の一覧
+ *
+ * このサンプルでは名前の変更・削除の確認に window.prompt / confirm を使う
+ */
+export const PresetMenu = ({
+  presets,
+  onSave,
+  onApply,
+  onRename,
+  onDelete,
+}: PresetMenuProps) => {
+  const [name, setName] = useState("");
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName("");
+  };
+
+  const handleRename = (preset: PresetItem) => {
+    const newName = window.prompt("新しい名前", preset.name)?.trim();
+    if (newName) onRename(preset.id, newName);
+  };
+
+  const handleDelete = (preset: PresetItem) => {
+    if (window.confirm(`「${preset.name}」を削除しますか？`)) {
+      onDelete(preset.id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* 現在の条件を保存（同じ名前は上書き） */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="条件の名前（例: 毎朝の確認）"
+          className="flex-1 rounded border px-2 py-1 text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="rounded bg-blue-600 px-3 py-1 text-sm text-white disabled:opacity-50"
+        >
+          現在の条件を保存
+        </button>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-sm text-gray-500">保存した条件はありません</p>
+      ) : (
+        <ul className="divide-y text-sm">
+          {presets.map((preset) => (
+            <li key={preset.id} className="flex items-center gap-2 py-2">
+              <button
+                type="button"
+                onClick={() => onApply(preset.id)}
+                className="flex-1 text-left text-blue-600 hover:underline"
+              >
+                {preset.name}
+              </button>
+              {preset.errors.length > 0 && (
+                <span className="text-xs text-yellow-700">
+                  一部の条件は無効です
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => handleRename(preset)}
+                className="text-gray-600 hover:underline"
+              >
+                名前を変更
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(preset)}
+                className="text-red-600 hover:underline"
+              >
+                削除
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
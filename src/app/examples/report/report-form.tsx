@@ -1,7 +1,7 @@
 "use client";
 
 import { Controller, type UseFormReturn } from "react-hook-form";
-import { format } from "date-fns";
+import { format, isValid } from "date-fns";
 import {
   type ReportFormValues,
   DEVICES,
@@ -9,6 +9,7 @@ import {
   toDateRange,
   fromDateRange,
 } from "./form-schema";
+import type { UnappliedChanges } from "../../lib/form-sync";
 
 // =============================================================================
 // 型定義
@@ -23,10 +24,22 @@ type ReportFormProps = {
   form: UseFormReturn<ReportFormValues>;
   onSubmit: () => void;
   onClear: () => void;
+  // 検索ボタンを押していない変更を破棄してURLの値に戻す
+  onRevert: () => void;
+  // フォームとURLの差分（useSearchForm の unappliedChanges）
+  unappliedChanges: UnappliedChanges;
   programOptions: SelectOption[];
   mediaPropertyOptions: SelectOption[];
 };
 
+// 検索結果に反映されていない項目の目印
+const UnappliedMark = ({ show }: { show: boolean }) =>
+  show ? (
+    <span className="ml-2 rounded bg-amber-100 px-1 text-xs font-normal text-amber-700">
+      未適用
+    </span>
+  ) : null;
+
 // =============================================================================
 // コンポーネント
 // =============================================================================
@@ -45,18 +58,49 @@ export const ReportForm = ({
   form,
   onSubmit,
   onClear,
+  onRevert,
+  unappliedChanges,
   programOptions,
   mediaPropertyOptions,
 }: ReportFormProps) => {
-  const { control, watch, setValue } = form;
+  const { control, watch, setValue, formState } = form;
+
+  // 差分のキーは "date.from" のような展開後のフィールド名
+  const isUnapplied = (name: string) =>
+    Object.keys(unappliedChanges).some(
+      (key) => key === name || key.startsWith(`${name}.`)
+    );
+  const hasUnappliedChanges = Object.keys(unappliedChanges).length > 0;
 
   // 日付範囲の表示用
-  const dateFrom = watch("dateFrom");
-  const dateTo = watch("dateTo");
-  const dateRange = toDateRange(dateFrom, dateTo);
+  const date = watch("date");
+  const dateRange = toDateRange(date);
+
+  // 期間のエラー（空の日付・期間のルール違反）
+  // date 全体のエラーはオブジェクトの message に入る
+  const dateErrors = formState.errors.date;
+  const dateError = (dateErrors?.message ??
+    dateErrors?.from?.message ??
+    dateErrors?.to?.message) as string | undefined;
 
   return (
     <form onSubmit={onSubmit} className="space-y-6">
+      {/* 検索結果に反映されていない変更の通知 */}
+      {hasUnappliedChanges && (
+        <div className="flex items-center justify-between rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <span>
+            未適用の変更があります。検索ボタンを押すと結果に反映されます
+          </span>
+          <button
+            type="button"
+            onClick={onRevert}
+            className="rounded border border-amber-300 px-3 py-1 hover:bg-amber-100"
+          >
+            変更を破棄
+          </button>
+        </div>
+      )}
+
       {/* プログラム・サイト選択 */}
       <div className="flex flex-wrap gap-4">
         <Controller
@@ -66,6 +110,7 @@ export const ReportForm = ({
             <div className="w-72">
               <label className="mb-1 block text-sm font-bold">
                 プロモーション
+                <UnappliedMark show={isUnapplied("programId")} />
               </label>
               <select
                 {...field}
@@ -87,7 +132,10 @@ export const ReportForm = ({
           control={control}
           render={({ field }) => (
             <div className="w-72">
-              <label className="mb-1 block text-sm font-bold">サイト</label>
+              <label className="mb-1 block text-sm font-bold">
+                サイト
+                <UnappliedMark show={isUnapplied("mediaPropertyId")} />
+              </label>
               <select
                 {...field}
                 className="w-full rounded border border-gray-300 p-2"
@@ -108,27 +156,38 @@ export const ReportForm = ({
       <div className="flex flex-wrap items-end gap-4">
         {/* 日付範囲 */}
         <div className="w-72">
-          <label className="mb-1 block text-sm font-bold">期間</label>
+          <label className="mb-1 block text-sm font-bold">
+            期間
+            <UnappliedMark show={isUnapplied("date")} />
+          </label>
           <div className="flex items-center gap-2 rounded border border-gray-300 bg-white p-2">
             <input
               type="date"
-              value={dateFrom}
-              onChange={(e) => setValue("dateFrom", e.target.value)}
+              value={date.from}
+              onChange={(e) => setValue("date.from", e.target.value)}
               className="flex-1 border-none outline-none"
             />
             <span className="text-gray-400">〜</span>
             <input
               type="date"
-              value={dateTo}
-              onChange={(e) => setValue("dateTo", e.target.value)}
+              value={date.to}
+              onChange={(e) => setValue("date.to", e.target.value)}
               className="flex-1 border-none outline-none"
             />
           </div>
           {/* 実際のプロジェクトでは Popover + Calendar を使用 */}
-          <p className="mt-1 text-xs text-gray-500">
-            現在: {format(dateRange.from, "yyyy/MM/dd")}
-            {dateRange.to && ` - ${format(dateRange.to, "yyyy/MM/dd")}`}
-          </p>
+          {dateError ? (
+            <p className="mt-1 text-xs text-red-600">{dateError}</p>
+          ) : (
+            isValid(dateRange.from) && (
+              <p className="mt-1 text-xs text-gray-500">
+                現在: {format(dateRange.from, "yyyy/MM/dd")}
+                {dateRange.to &&
+                  isValid(dateRange.to) &&
+                  ` - ${format(dateRange.to, "yyyy/MM/dd")}`}
+              </p>
+            )
+          )}
         </div>
 
         {/* 基準日 */}
@@ -137,7 +196,10 @@ export const ReportForm = ({
           control={control}
           render={({ field }) => (
             <div>
-              <label className="mb-1 block text-sm font-bold">基準日</label>
+              <label className="mb-1 block text-sm font-bold">
+                基準日
+                <UnappliedMark show={isUnapplied("referenceDateType")} />
+              </label>
               <div className="flex gap-4">
                 {REFERENCE_DATE_TYPES.map((type) => (
                   <label
@@ -172,7 +234,10 @@ export const ReportForm = ({
           control={control}
           render={({ field }) => (
             <div>
-              <label className="mb-1 block text-sm font-bold">デバイス</label>
+              <label className="mb-1 block text-sm font-bold">
+                デバイス
+                <UnappliedMark show={isUnapplied("devices")} />
+              </label>
               <div className="flex gap-4 rounded bg-gray-100 p-2">
                 {DEVICES.map((device) => (
                   <label
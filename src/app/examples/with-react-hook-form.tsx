@@ -5,15 +5,25 @@
  *
  * シンプルなアプローチ:
  * - URLの状態をreact-hook-formの初期値として使用
- * - 検索ボタン押下時にURLを更新
+ * - 検索ボタン押下時にURLを更新（mode: "live" では入力が止まったら有効な値を反映）
+ * - URLが外部から変わったら入力中でない項目をフォームに反映
  */
 
-import { useForm, Controller, type DefaultValues } from "react-hook-form";
+import {
+  useForm,
+  Controller,
+  type DefaultValues,
+  type Resolver,
+} from "react-hook-form";
 import {
   useFilters,
   type FilterSchema,
   type InferState,
+  type UseFiltersOptions,
 } from "../hooks/useFilters";
+import { useLiveSearch, type LiveSearchOptions } from "../hooks/useLiveSearch";
+import { useUrlFormSync } from "../hooks/useUrlFormSync";
+import { createParsersFromFilterSchema } from "../lib/filter-schema";
 
 // =============================================================================
 // 1. 汎用 useUrlForm フック
@@ -27,77 +37,126 @@ import {
 type ToUrlValue<T> = T extends string ? T | null : T;
 type ToUrlParams<T> = { [K in keyof T]: ToUrlValue<T[K]> };
 
+type UseUrlFormOptions<T extends Record<string, unknown>> = UseFiltersOptions &
+  LiveSearchOptions & {
+    /** フォームの検証（zodResolver など）。live モードでは検証を通った値だけURLに反映 */
+    resolver?: Resolver<T>;
+  };
+
+// 空文字列はnullに変換（URLから削除）
+const toUrlParams = <V extends Record<string, unknown>>(values: V) =>
+  Object.keys(values).reduce(
+    (acc, key) => {
+      const value = values[key];
+      acc[key] = value === "" ? null : value;
+      return acc;
+    },
+    {} as Record<string, unknown>
+  ) as ToUrlParams<V>;
+
 /**
  * nuqsとreact-hook-formを統合する汎用フック
  *
  * @param schema - nuqsのフィルタースキーマ
- * @param defaultValues - フォームのデフォルト値（URLに値がない場合に使用）
+ * @param defaultValues - フォームのデフォルト値（URLに値がない場合に使用。デフォルトと同じ値はURLから削除）
+ * @param options - useFiltersのオプション（namespaceでURLキーに接頭辞を付ける）と mode / debounceMs / resolver
  *
  * @example
  * const { form, search, clearFilters } = useUrlForm(
  *   { keyword: { type: "string" }, status: { type: "stringLiteral", options: STATUSES } },
  *   { keyword: "", status: "PENDING" }
  * );
+ *
+ * // 検索ボタンなしで入力が止まったら反映（Zodで検証）
+ * const { form } = useUrlForm(schema, defaultValues, {
+ *   mode: "live",
+ *   resolver: zodResolver(formSchema),
+ * });
  */
 export const useUrlForm = <
   S extends FilterSchema,
   T extends Record<string, unknown>,
 >(
   schema: S,
-  defaultValues: T & DefaultValues<T>
+  defaultValues: T & DefaultValues<T>,
+  options: UseUrlFormOptions<T> = {}
 ) => {
-  const { filters, setFilters } = useFilters(schema);
+  const { mode, debounceMs, resolver, ...filtersOptions } = options;
 
-  // URLの値とデフォルト値をマージして初期値を作成
-  const initialValues = Object.keys(defaultValues).reduce(
-    (acc, key) => {
-      const urlValue = filters[key];
+  // デフォルト値をスキーマに反映（デフォルトと同じ値はURLに書き込まれない）
+  const schemaWithDefaults = Object.fromEntries(
+    Object.entries(schema).map(([key, config]) => {
       const defaultValue = defaultValues[key];
+      return [
+        key,
+        defaultValue === undefined || defaultValue === null
+          ? config
+          : { ...config, default: defaultValue },
+      ];
+    })
+  ) as S;
+
+  const { filters, setFilters, toApiParams, urlErrors } = useFilters(
+    schemaWithDefaults,
+    filtersOptions
+  );
 
-      // URLに値があればそれを使用、なければデフォルト値
-      if (Array.isArray(defaultValue)) {
-        // 配列の場合: URLの配列が空でなければ使用
-        acc[key] = (urlValue as unknown[])?.length > 0 ? urlValue : defaultValue;
-      } else {
-        // スカラーの場合: URLの値がnullでなければ使用
-        acc[key] = urlValue ?? defaultValue;
-      }
+  // URLの値を初期値として使用（URLに値がなければデフォルト値）
+  const initialValues = Object.keys(defaultValues).reduce(
+    (acc, key) => {
+      acc[key] = filters[key] ?? defaultValues[key];
       return acc;
     },
     {} as Record<string, unknown>
   ) as T;
 
-  const form = useForm<T>({ defaultValues: initialValues as DefaultValues<T> });
+  const form = useForm<T>({
+    resolver,
+    defaultValues: initialValues as DefaultValues<T>,
+  });
+
+  const parsers = createParsersFromFilterSchema(schemaWithDefaults);
 
-  // 検索実行: フォームの値をURLに反映
-  const search = form.handleSubmit((data) => {
-    const urlParams = Object.keys(data).reduce(
-      (acc, key) => {
-        const value = data[key];
-        // 空文字列はnullに変換（URLから削除）
-        acc[key] = value === "" ? null : value;
-        return acc;
-      },
-      {} as Record<string, unknown>
-    );
-    setFilters(urlParams as Partial<InferState<S>>);
+  // URLが外部から変わったらフォームに反映し、入力中の値とURLの値の差分を求める
+  const urlSync = useUrlFormSync(form, initialValues, {
+    getEquals: (key) => parsers[key]?.eq,
   });
+  const { unappliedChanges, isOutOfSync, revertToUrl } = urlSync;
+
+  // フォームの値をURLに反映
+  const writeToUrl = (values: T) => {
+    setFilters(toUrlParams(values) as Partial<InferState<S>>);
+  };
+
+  // 検索実行: フォームの値をURLに反映
+  const search = form.handleSubmit(writeToUrl);
+
+  // live モード: 検証済みの値がURLと異なるときだけ反映
+  useLiveSearch(
+    form,
+    (values) => {
+      if (urlSync.differsFromUrl(values)) writeToUrl(values);
+    },
+    { mode, debounceMs }
+  );
 
   // フィルターをクリア
   const clearFilters = () => {
     form.reset(defaultValues);
-    const urlParams = Object.keys(defaultValues).reduce(
-      (acc, key) => {
-        const value = defaultValues[key];
-        acc[key] = value === "" ? null : value;
-        return acc;
-      },
-      {} as Record<string, unknown>
-    );
-    setFilters(urlParams as Partial<InferState<S>>);
+    writeToUrl(defaultValues);
   };
 
-  return { form, search, clearFilters, filters };
+  return {
+    form,
+    search,
+    clearFilters,
+    filters,
+    toApiParams,
+    urlErrors,
+    unappliedChanges,
+    isOutOfSync,
+    revertToUrl,
+  };
 };
 
 // =============================================================================
@@ -123,14 +182,14 @@ const searchFilterSchema = {
 } as const satisfies FilterSchema;
 
 // フォームの型
-interface SearchFormValues {
+type SearchFormValues = {
   keyword: string;
   dateFrom: string;
   dateTo: string;
   dateType: DateType;
   statuses: Status[];
   categories: Category[];
-}
+};
 
 // デフォルト値
 const getDefaultValues = (): SearchFormValues => ({
@@ -370,5 +429,6 @@ export const SearchPageWithForm = () => {
  * - スキーマとデフォルト値を渡すだけで使える
  * - フォームの型は自動推論される
  * - 空文字列は自動的にURLから削除される
+ * - デフォルト値と同じ値もURLに書き込まれない
  * - URLを共有すれば同じ条件で検索可能
  */
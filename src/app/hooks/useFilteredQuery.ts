@@ -0,0 +1,163 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import {
+  useFilters,
+  type FilterSchema,
+  type InferState,
+  type UseFiltersOptions,
+  type UseFiltersReturn,
+} from './useFilters'
+import { getApiFields } from '../lib/filter-schema'
+import { createFilterLink } from '../lib/filter-link'
+import { createFilterLoader } from '../lib/search-params'
+import {
+  buildApiParams,
+  createToApiParams,
+  type ToApiParams,
+} from '../lib/api-params'
+
+// 結果をキャッシュするフィルター状態の数（古いものから削除）
+const DEFAULT_CACHE_SIZE = 20
+
+// データ取得関数に渡す情報
+export type FilteredQueryContext = {
+  // フィルターが変わったら中断される（fetch の signal に渡す）
+  signal: AbortSignal
+  // API呼び出し用パラメータ（スキーマの api オプションを反映）
+  toApiParams: ToApiParams
+}
+
+export type UseFilteredQueryOptions = UseFiltersOptions & {
+  // 次の結果を取得している間、前のフィルター状態の結果を表示し続ける
+  keepPreviousData?: boolean
+  // 結果をキャッシュするフィルター状態の数（デフォルト 20）
+  cacheSize?: number
+}
+
+type UseFilteredQueryReturn<S extends FilterSchema, T> = UseFiltersReturn<S> & {
+  data: T | undefined
+  error: unknown
+  // 現在のフィルター状態の結果をまだ取得していない
+  isLoading: boolean
+  // data が前のフィルター状態の結果（keepPreviousData 指定時）
+  isPreviousData: boolean
+  // キャッシュを使わずに再取得
+  refetch: () => void
+}
+
+// 取得が完了した結果（どのフィルター状態のものか）
+type SettledResult<T> =
+  | { key: string; data: T; error?: undefined }
+  | { key: string; data?: undefined; error: unknown }
+
+/**
+ * フィルター状態に応じてデータを取得するフック
+ * useFilters の戻り値に加えて、取得結果（data / error / isLoading）を返す
+ *
+ * - フィルターが変わると前のリクエストを中断する（古い結果で上書きされない）
+ * - 結果はフィルター状態（URLのクエリ文字列）ごとにキャッシュされ、
+ *   戻る/進むで前の状態に戻ったときはすぐに表示される
+ * - 取得にはURLに書き込まれた状態を使う（debounceMs の項目は入力が止まるまで取得しない）
+ *
+ * @example
+ * const { filters, setFilter, data, isLoading, isPreviousData } = useFilteredQuery(
+ *   reportFilterSchema,
+ *   (filters, { signal, toApiParams }) =>
+ *     fetch(`/api/reports?${toApiParams('searchParams')}`, { signal }).then((res) => res.json()),
+ *   { keepPreviousData: true }
+ * )
+ */
+export function useFilteredQuery<S extends FilterSchema, T>(
+  schema: S,
+  fetcher: (filters: InferState<S>, context: FilteredQueryContext) => Promise<T>,
+  options: UseFilteredQueryOptions = {}
+): UseFilteredQueryReturn<S, T> {
+  const {
+    keepPreviousData = false,
+    cacheSize = DEFAULT_CACHE_SIZE,
+    ...filtersOptions
+  } = options
+  const filtersReturn = useFilters(schema, filtersOptions)
+
+  // URLに書き込まれたフィルター状態（デバウンス中の入力は含まない）
+  // filters は入力のたびに変わるので、取得にはこちらを使う
+  const searchParams = useSearchParams()
+  const filters = createFilterLoader(schema, filtersOptions)(searchParams)
+  const toApiParams = createToApiParams(() =>
+    buildApiParams(getApiFields(schema, filters))
+  )
+
+  // フィルター状態の正規化したキー（デフォルト値の省略・エイリアスはURLと同じ）
+  const key = createFilterLink(schema, filtersOptions)('', filters)
+
+  const cacheRef = useRef(new Map<string, T>())
+  const [result, setResult] = useState<SettledResult<T> | null>(null)
+  const [refetchCount, setRefetchCount] = useState(0)
+
+  // エフェクト内では最新のフィルター・取得関数を使う（キーが変わったときだけ取得する）
+  const latestRef = useRef({ filters, toApiParams, fetcher })
+  latestRef.current = { filters, toApiParams, fetcher }
+
+  const cache = cacheRef.current
+  const isCached = cache.has(key)
+
+  useEffect(() => {
+    if (cacheRef.current.has(key)) return
+
+    const controller = new AbortController()
+    const { filters, toApiParams, fetcher } = latestRef.current
+
+    Promise.resolve()
+      .then(() =>
+        fetcher(filters, { signal: controller.signal, toApiParams })
+      )
+      .then(
+        (data) => {
+          if (controller.signal.aborted) return
+          // 古いものから削除（Map は挿入順を保つ）
+          const cache = cacheRef.current
+          cache.set(key, data)
+          if (cache.size > cacheSize) {
+            cache.delete(cache.keys().next().value as string)
+          }
+          setResult({ key, data })
+        },
+        (error: unknown) => {
+          if (controller.signal.aborted) return
+          setResult({ key, error })
+        }
+      )
+
+    // フィルターが変わった・アンマウントされたら中断
+    return () => controller.abort()
+  }, [key, refetchCount, cacheSize])
+
+  // 前のフィルター状態の結果（keepPreviousData 用）
+  const previousDataRef = useRef<T | undefined>(undefined)
+
+  const settled = result?.key === key ? result : null
+  const currentData = isCached ? cache.get(key) : settled?.data
+  const isLoading = !isCached && !settled
+  const isPreviousData =
+    keepPreviousData && isLoading && previousDataRef.current !== undefined
+  const data = isPreviousData ? previousDataRef.current : currentData
+
+  if (currentData !== undefined) previousDataRef.current = currentData
+
+  const refetch = () => {
+    cache.delete(key)
+    setResult(null)
+    setRefetchCount((count) => count + 1)
+  }
+
+  return {
+    ...filtersReturn,
+    data,
+    error: isCached ? undefined : settled?.error,
+    isLoading,
+    isPreviousData,
+    refetch,
+  }
+}
@@ -1,74 +1,75 @@
 'use client'
 
+import { useEffect, useRef } from 'react'
+import { useQueryStates } from 'nuqs'
+import { useSearchParams } from 'next/navigation'
 import {
-  useQueryStates,
-  parseAsString,
-  parseAsArrayOf,
-  parseAsStringLiteral,
-  parseAsInteger,
-  parseAsBoolean,
-} from 'nuqs'
-
-// パーサータイプの定義
-type ParserType =
-  | { type: 'string' }
-  | { type: 'integer' }
-  | { type: 'boolean' }
-  | { type: 'stringLiteral'; options: readonly string[] }
-  | { type: 'stringArray' }
-  | { type: 'stringLiteralArray'; options: readonly string[] }
-
-// スキーマ定義の型
-export type FilterSchema = Record<string, ParserType>
-
-// スキーマからパーサーを生成（型をanyで回避）
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function createParser(config: ParserType): any {
-  switch (config.type) {
-    case 'string':
-      return parseAsString
-    case 'integer':
-      return parseAsInteger
-    case 'boolean':
-      return parseAsBoolean
-    case 'stringLiteral':
-      return parseAsStringLiteral(config.options as readonly string[])
-    case 'stringArray':
-      return parseAsArrayOf(parseAsString).withDefault([])
-    case 'stringLiteralArray':
-      return parseAsArrayOf(
-        parseAsStringLiteral(config.options as readonly string[])
-      ).withDefault([])
-    default:
-      return parseAsString
-  }
-}
+  URL_CORRECTION_OPTIONS,
+  fromQueryState,
+  getApiFields,
+  mergeFieldOptions,
+  toQueryOptions,
+  toQueryState,
+  type FilterSchema,
+  type InferState,
+  type InferValue,
+  type SetFilterOptions,
+} from '../lib/filter-schema'
+import {
+  createFilterUrlFormat,
+  type CompactUrlOptions,
+} from '../lib/compact-url'
+import type { UrlError } from '../lib/url-validation'
+import {
+  buildApiParams,
+  createToApiParams,
+  type ToApiParams,
+} from '../lib/api-params'
+import {
+  setPrimarySort as setPrimarySortItem,
+  toggleSort as toggleSortItem,
+  type SortDirection,
+  type SortItem,
+} from '../lib/sort'
+import { useUrlErrors } from './useUrlErrors'
+
+export { formatIsoDate, parseIsoDate, type DateRange } from '../lib/parsers'
+export type {
+  FilterSchema,
+  InferState,
+  SetFilterOptions,
+} from '../lib/filter-schema'
+export type { SortDirection, SortItem } from '../lib/sort'
 
-// スキーマから値の型を推論
-type InferValue<T extends ParserType> = T extends { type: 'string' }
-  ? string | null
-  : T extends { type: 'integer' }
-    ? number | null
-    : T extends { type: 'boolean' }
-      ? boolean | null
-      : T extends { type: 'stringLiteral'; options: readonly (infer U)[] }
-        ? U | null
-        : T extends { type: 'stringArray' }
-          ? string[]
-          : T extends { type: 'stringLiteralArray'; options: readonly (infer U)[] }
-            ? U[]
-            : never
-
-// スキーマから全体の状態型を推論
-export type InferState<S extends FilterSchema> = {
-  [K in keyof S]: InferValue<S[K]>
+// フックのオプション
+export type UseFiltersOptions = {
+  // URLキーの接頭辞（1ページに複数のフィルターを置く場合: left.page / right.page）
+  namespace?: string
+  // false にするとURL更新時にサーバーコンポーネントを再レンダリングする（デフォルト true）
+  // サーバー側で createFilterCache を使ってデータを取得している場合に指定する
+  shallow?: boolean
+  // 長いURLを1つのパラメータにまとめる（?s=...）。true か { param, maxLength } を指定
+  // 通常の形式のURLも引き続き読み込める
+  compact?: boolean | CompactUrlOptions
 }
 
+// sort タイプのフィールドで並び替えできる列
+type SortColumn<T> = T extends { type: 'sort'; options: readonly (infer U)[] }
+  ? U
+  : never
+
 // フック戻り値の型
-type UseFiltersReturn<S extends FilterSchema> = {
+export type UseFiltersReturn<S extends FilterSchema> = {
   filters: InferState<S>
-  setFilter: <K extends keyof S>(key: K, value: InferValue<S[K]>) => void
-  setFilters: (values: Partial<InferState<S>>) => void
+  setFilter: <K extends keyof S>(
+    key: K,
+    value: InferValue<S[K]>,
+    options?: SetFilterOptions
+  ) => void
+  setFilters: (
+    values: Partial<InferState<S>>,
+    options?: SetFilterOptions
+  ) => void
   toggleArrayItem: <K extends keyof S>(
     key: K,
     item: S[K] extends { type: 'stringArray' | 'stringLiteralArray' }
@@ -77,8 +78,69 @@ type UseFiltersReturn<S extends FilterSchema> = {
         : never
       : never
   ) => void
+  // 列の並び替えを 昇順 → 降順 → なし の順に切り替える（sort タイプのフィールド）
+  toggleSort: <K extends keyof S>(key: K, column: SortColumn<S[K]>) => void
+  // 列を最優先の並び替えにする（他の列は優先度を下げて残す）
+  setPrimarySort: <K extends keyof S>(
+    key: K,
+    column: SortColumn<S[K]>,
+    direction?: SortDirection
+  ) => void
   clearFilters: () => void
   clearFilter: <K extends keyof S>(key: K) => void
+  // デバウンス中の値をすぐにURLへ反映（入力欄の blur 時に呼ぶ。アンマウント時は自動）
+  flush: () => void
+  // API呼び出し用パラメータ（スキーマの api オプションで名前・変換を指定）
+  toApiParams: ToApiParams
+  // 読み込み時にURLから無視・補正したパラメータ（リンクが古い・手で編集された場合）
+  urlErrors: UrlError[]
+}
+
+/**
+ * 現在の値から次の値を求めて書き込む操作（配列フィルターのトグル・並び替えの切り替え）
+ * useFilters と usePagination（ページのリセット付き）で共通
+ *
+ * @param filters - 現在のフィルター状態
+ * @param write - 次の値を書き込む関数
+ */
+export function createFilterToggles<S extends FilterSchema>(
+  filters: Record<string, unknown>,
+  write: (values: Record<string, unknown>) => void
+): Pick<
+  UseFiltersReturn<S>,
+  'toggleArrayItem' | 'toggleSort' | 'setPrimarySort'
+> {
+  const toggleArrayItem = (key: keyof S, item: unknown) => {
+    const currentValue = filters[key as string]
+    if (!Array.isArray(currentValue)) return
+
+    const newValue = currentValue.includes(item)
+      ? currentValue.filter((v) => v !== item)
+      : [...currentValue, item]
+
+    write({ [key]: newValue })
+  }
+
+  const toggleSort = (key: keyof S, column: string) => {
+    const currentValue = filters[key as string] as SortItem[]
+    write({ [key]: toggleSortItem(currentValue, column) })
+  }
+
+  const setPrimarySort = (
+    key: keyof S,
+    column: string,
+    direction?: SortDirection
+  ) => {
+    const currentValue = filters[key as string] as SortItem[]
+    write({ [key]: setPrimarySortItem(currentValue, column, direction) })
+  }
+
+  // 型は useFilters の戻り値と同じ
+  return {
+    toggleArrayItem: toggleArrayItem as UseFiltersReturn<S>['toggleArrayItem'],
+    toggleSort: toggleSort as UseFiltersReturn<S>['toggleSort'],
+    setPrimarySort: setPrimarySort as UseFiltersReturn<S>['setPrimarySort'],
+  }
 }
 
 /**
@@ -88,73 +150,171 @@ type UseFiltersReturn<S extends FilterSchema> = {
  * @example
  * const schema = {
  *   search: { type: 'string' },
- *   page: { type: 'integer' },
- *   statuses: { type: 'stringLiteralArray', options: ['PENDING', 'APPROVED'] as const },
+ *   page: { type: 'integer', default: 1 },
+ *   statuses: { type: 'stringLiteralArray', options: ['PENDING', 'APPROVED'] as const, urlKey: 'st' },
+ *   period: { type: 'dateRange' }, // ?periodFrom=2024-01-01&periodTo=2024-01-31
+ *   conditions: { type: 'json', validator: z.array(conditionSchema), default: [] },
  * } as const satisfies FilterSchema
  *
  * const { filters, setFilter, toggleArrayItem, clearFilters } = useFilters(schema)
+ *
+ * // テキスト入力は入力が落ち着いてからURLに書き込む（画面の値はすぐに変わる）
+ * const schema = { keyword: { type: 'string', debounceMs: 300 } } as const satisfies FilterSchema
+ * <input value={filters.keyword ?? ''} onChange={...} onBlur={flush} />
+ *
+ * // ページ送りは履歴に残し、戻る/進むで検索結果のページを辿れるようにする
+ * const schema = { page: { type: 'integer', default: 1, history: 'push' } } as const satisfies FilterSchema
+ * setFilter('page', 1, { history: 'replace' }) // 呼び出しごとに上書きも可能
+ *
+ * // 複数列の並び替え（?sort=-createdDate,status。許可していない列を含むURLは無視する）
+ * const schema = { sort: { type: 'sort', options: ['createdDate', 'status'] as const } } as const satisfies FilterSchema
+ * <th onClick={() => toggleSort('sort', 'createdDate')}>作成日</th>
+ *
+ * // 選択肢が多くURLが長くなる場合は1つのパラメータにまとめる（?s=1.xxxx。既定は1500文字超）
+ * const { filters } = useFilters(schema, { compact: { maxLength: 1000 } })
+ *
+ * // 同じページに2つのフィルターを置く場合は名前空間で分ける（?left.page=2&right.page=5）
+ * const left = useFilters(schema, { namespace: 'left' })
+ * const right = useFilters(schema, { namespace: 'right' })
  */
 export function useFilters<S extends FilterSchema>(
-  schema: S
+  schema: S,
+  options: UseFiltersOptions = {}
 ): UseFiltersReturn<S> {
-  // スキーマからパーサーオブジェクトを生成
-  const parsers = Object.fromEntries(
-    Object.entries(schema).map(([key, config]) => [key, createParser(config)])
+  const { namespace, shallow, compact } = options
+
+  // スキーマからパーサーオブジェクト・URLキーを生成（compact の場合はまとめたパラメータを含む）
+  const { parsers, urlKeys, unpack, pack, check } = createFilterUrlFormat(
+    schema,
+    { namespace, compact }
   )
 
-  const [state, setState] = useQueryStates(parsers)
+  const [queryState, setQueryState] = useQueryStates(parsers, {
+    urlKeys,
+    shallow,
+  })
+  const state = fromQueryState(schema, unpack(queryState))
 
-  // 単一のフィルターを設定
-  const setFilter = <K extends keyof S>(key: K, value: InferValue<S[K]>) => {
-    setState({ [key]: value } as Partial<typeof state>)
+  // URLに書き込む
+  // compact の場合は常に全キーを書き込むので、オプションは変更したフィールドから1つに決める
+  const writeQueryState = (
+    queryValues: Record<string, unknown>,
+    fieldKeys: string[],
+    setOptions: SetFilterOptions = {}
+  ) =>
+    compact
+      ? setQueryState(
+          (current) => pack(current, queryValues),
+          toQueryOptions(mergeFieldOptions(schema, fieldKeys, setOptions))
+        )
+      : setQueryState(queryValues, toQueryOptions(setOptions))
+
+  // URLの値を検証し、無効な値はURLから削除・補正する（履歴には残さない）
+  const searchParams = useSearchParams()
+  const urlErrors = useUrlErrors(check(searchParams), (corrections) =>
+    writeQueryState(corrections, [], URL_CORRECTION_OPTIONS)
+  )
+
+  // デバウンス中でまだURLに書き込まれていない値（nuqsの状態のキーごと）
+  const pendingRef = useRef<Record<string, unknown>>({})
+
+  const setState = (
+    values: Record<string, unknown>,
+    setOptions: SetFilterOptions = {}
+  ) => {
+    const { debounceMs } = setOptions
+    const queryValues = toQueryState(schema, values)
+    const promise = writeQueryState(
+      queryValues,
+      Object.keys(values),
+      setOptions
+    )
+
+    // 即時反映された値は保留を解除し、デバウンスされた値は保留に記録
+    const pending = pendingRef.current
+    Object.keys(queryValues).forEach((key) => delete pending[key])
+    const debounced = toQueryState(
+      schema,
+      Object.fromEntries(
+        Object.entries(values).filter(
+          ([key]) => (debounceMs ?? schema[key]?.debounceMs ?? 0) > 0
+        )
+      )
+    )
+    Object.assign(pending, debounced)
+
+    // URLに書き込まれたら保留を解除（その間に新しい値が入力された場合は残す）
+    promise.then(() => {
+      Object.entries(debounced).forEach(([key, value]) => {
+        if (pendingRef.current[key] === value) delete pendingRef.current[key]
+      })
+    })
   }
 
-  // 複数のフィルターを一括設定
-  const setFilters = (values: Partial<InferState<S>>) => {
-    setState(values as Partial<typeof state>)
+  // デバウンス中の値をすぐにURLへ反映
+  const flush = () => {
+    const pending = pendingRef.current
+    if (Object.keys(pending).length === 0) return
+    pendingRef.current = {}
+    writeQueryState(pending, Object.keys(pending), { debounceMs: 0 })
   }
 
-  // 配列フィルターのトグル
-  const toggleArrayItem = <K extends keyof S>(key: K, item: unknown) => {
-    const currentValue = state[key as string]
-    if (!Array.isArray(currentValue)) return
+  // アンマウント時（ページ遷移など）に保留中の値を書き込む
+  const flushRef = useRef(flush)
+  flushRef.current = flush
+  useEffect(() => () => flushRef.current(), [])
 
-    const newValue = currentValue.includes(item)
-      ? currentValue.filter((v) => v !== item)
-      : [...currentValue, item]
+  // 単一のフィルターを設定
+  const setFilter = <K extends keyof S>(
+    key: K,
+    value: InferValue<S[K]>,
+    setOptions?: SetFilterOptions
+  ) => {
+    setState({ [key]: value }, setOptions)
+  }
 
-    setState({ [key]: newValue } as Partial<typeof state>)
+  // 複数のフィルターを一括設定
+  const setFilters = (
+    values: Partial<InferState<S>>,
+    setOptions?: SetFilterOptions
+  ) => {
+    setState(values, setOptions)
   }
 
-  // 全フィルターをクリア
+  // 配列フィルターのトグル・並び替えの切り替え
+  const { toggleArrayItem, toggleSort, setPrimarySort } =
+    createFilterToggles<S>(state, (values) => setState(values))
+
+  // 全フィルターをクリア（URLから削除され、スキーマのデフォルト値に戻る）
+  // このフックのキーのみが対象なので、他の名前空間のフィルターは変更されない
   const clearFilters = () => {
     const cleared = Object.fromEntries(
-      Object.entries(schema).map(([key, config]) => [
-        key,
-        config.type === 'stringArray' || config.type === 'stringLiteralArray'
-          ? []
-          : null,
-      ])
-    ) as typeof state
-    setState(cleared)
+      Object.keys(schema).map((key) => [key, null])
+    )
+    setState(cleared, { debounceMs: 0 })
   }
 
   // 単一フィルターをクリア
   const clearFilter = <K extends keyof S>(key: K) => {
-    const config = schema[key]
-    const defaultValue =
-      config.type === 'stringArray' || config.type === 'stringLiteralArray'
-        ? []
-        : null
-    setState({ [key]: defaultValue } as Partial<typeof state>)
+    setState({ [key]: null }, { debounceMs: 0 })
   }
 
+  // API呼び出し用パラメータを組み立て（object / searchParams / json）
+  const toApiParams = createToApiParams(() =>
+    buildApiParams(getApiFields(schema, state))
+  )
+
   return {
     filters: state as InferState<S>,
     setFilter,
     setFilters,
     toggleArrayItem,
+    toggleSort,
+    setPrimarySort,
     clearFilters,
     clearFilter,
+    flush,
+    toApiParams,
+    urlErrors,
   }
 }
@@ -0,0 +1,64 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type { FieldValues, UseFormReturn } from 'react-hook-form'
+
+// 入力が止まってからURLに反映するまでの時間（ms）
+const DEFAULT_LIVE_DEBOUNCE_MS = 500
+
+export type SearchFormMode = 'submit' | 'live'
+
+export type LiveSearchOptions = {
+  // 'submit': 検索ボタンでURLに反映（デフォルト） / 'live': 入力するとURLに反映
+  mode?: SearchFormMode
+  // mode: 'live' で入力が止まってからURLに反映するまでの時間（ms。デフォルト 500）
+  debounceMs?: number
+}
+
+/**
+ * 検索フォームの live モード（useSearchForm / useUrlForm の mode: 'live'）
+ *
+ * 入力が止まったらフォーム全体を検証し（resolver・フィールドのルール）、
+ * 有効なときだけ apply に渡す。入力途中の無効な値（日付の入力中など）は
+ * URLに反映せず、検索結果は前の条件のままになる
+ *
+ * フォームの値が変わるたびに呼ばれるので（URLからの反映・reset を含む）、
+ * apply 側でURLと同じ値なら書き込まないようにする
+ *
+ * @param form - react-hook-form のフォーム
+ * @param apply - 検証済みの値をURLに書き込む（検索ボタンと同じ変換を使う）
+ * @param options - mode / debounceMs
+ */
+export function useLiveSearch<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  apply: (values: T) => void,
+  { mode = 'submit', debounceMs = DEFAULT_LIVE_DEBOUNCE_MS }: LiveSearchOptions
+) {
+  // 最新のURLの値と比較するため、レンダリングごとに更新する
+  const applyRef = useRef(apply)
+  applyRef.current = apply
+
+  useEffect(() => {
+    if (mode !== 'live') return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const applyIfValid = async () => {
+      timer = null
+      if (await form.trigger()) applyRef.current(form.getValues())
+    }
+
+    const subscription = form.watch(() => {
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(applyIfValid, debounceMs)
+    })
+
+    return () => {
+      subscription.unsubscribe()
+      // アンマウント時（ページ遷移など）は待機中の入力をすぐに反映する
+      if (timer) {
+        clearTimeout(timer)
+        void applyIfValid()
+      }
+    }
+  }, [form, mode, debounceMs])
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect } from 'react'
+import {
+  createFilterToggles,
+  type FilterSchema,
+  type InferState,
+  type SetFilterOptions,
+  type UseFiltersReturn,
+} from './useFilters'
+
+export type UsePaginationOptions<S extends FilterSchema> = {
+  // ページ番号のフィールド（デフォルト 'page'）
+  pageKey?: keyof S & string
+  // 表示件数のフィールド（デフォルト 'pageSize'）
+  pageSizeKey?: keyof S & string
+  // 変更したらページを1に戻すフィールド（省略時はページ番号以外のすべて）
+  resetOn?: readonly (keyof S & string)[]
+  // 全件数（取得するまでは undefined）。分かった時点で範囲外のページを最終ページに補正する
+  // keepPreviousData で前の結果を表示している間は undefined を渡す
+  total?: number
+}
+
+type UsePaginationReturn<S extends FilterSchema> = Pick<
+  UseFiltersReturn<S>,
+  | 'setFilter'
+  | 'setFilters'
+  | 'toggleArrayItem'
+  | 'toggleSort'
+  | 'setPrimarySort'
+  | 'clearFilter'
+> & {
+  page: number
+  pageSize: number | undefined
+  // 表示件数の選択肢（スキーマが numberLiteral の場合）
+  pageSizeOptions: readonly number[] | undefined
+  // 全ページ数（全件数が分かるまでは undefined）
+  pageCount: number | undefined
+  hasPrev: boolean
+  hasNext: boolean
+  // 指定したページへ移動（1〜最終ページに収める）
+  goTo: (page: number) => void
+  next: () => void
+  prev: () => void
+  // 表示件数を変更してページを1に戻す（選択肢にない値は無視）
+  setPageSize: (pageSize: number) => void
+}
+
+/**
+ * useFilters の戻り値にページネーションを追加するフック
+ *
+ * - 絞り込み条件（resetOn）を変更したらページを1に戻す
+ *   （返される setFilter などを使う。戻る/進むやURLを開いた場合は戻さない）
+ * - 全件数が分かったら、範囲外のページ（?page=7 で2ページしかない等）を最終ページに補正する
+ *
+ * @example
+ * const query = useFilteredQuery(reportFilterSchema, fetchReports, { keepPreviousData: true })
+ * const { setFilter, goTo, hasNext, pageCount } = usePagination(reportFilterSchema, query, {
+ *   total: query.isPreviousData ? undefined : query.data?.total,
+ * })
+ */
+export function usePagination<S extends FilterSchema>(
+  schema: S,
+  filtersApi: UseFiltersReturn<S>,
+  options: UsePaginationOptions<S> = {}
+): UsePaginationReturn<S> {
+  const { pageKey = 'page', pageSizeKey = 'pageSize', resetOn, total } = options
+  const filters = filtersApi.filters as Record<string, unknown>
+
+  const page = (filters[pageKey] as number | null) ?? 1
+  const pageSize = (filters[pageSizeKey] as number | null) ?? undefined
+  const pageSizeConfig = schema[pageSizeKey]
+  const pageSizeOptions =
+    pageSizeConfig?.type === 'numberLiteral' ? pageSizeConfig.options : undefined
+
+  const pageCount =
+    total === undefined || !pageSize
+      ? undefined
+      : Math.max(1, Math.ceil(total / pageSize))
+
+  const write = (
+    values: Record<string, unknown>,
+    setOptions?: SetFilterOptions
+  ) => {
+    filtersApi.setFilters(values as Partial<InferState<S>>, setOptions)
+  }
+
+  const setPage = (value: number, setOptions?: SetFilterOptions) => {
+    write({ [pageKey]: value }, setOptions)
+  }
+
+  // 範囲外のページを最終ページに補正（履歴は置き換える）
+  useEffect(() => {
+    if (pageCount !== undefined && page > pageCount) {
+      setPage(pageCount, { history: 'replace' })
+    }
+    // ページ数が分かったとき・ページが変わったときだけ確認する
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [page, pageCount])
+
+  const resetsPage = (key: string) =>
+    key !== pageKey && (resetOn ? resetOn.includes(key) : true)
+
+  // ページのリセットを含めて書き込む
+  // 履歴は変更したフィールドの設定に合わせる（ページ番号の push 設定は使わない）
+  const setFilters = (
+    values: Record<string, unknown>,
+    setOptions: SetFilterOptions = {}
+  ) => {
+    const keys = Object.keys(values)
+    if (page === 1 || !keys.some(resetsPage)) {
+      write(values, setOptions)
+      return
+    }
+    const history =
+      setOptions.history ??
+      (keys.some((key) => schema[key]?.history === 'push') ? 'push' : 'replace')
+    write({ ...values, [pageKey]: null }, { ...setOptions, history })
+  }
+
+  const setFilter = (
+    key: keyof S,
+    value: unknown,
+    setOptions?: SetFilterOptions
+  ) => {
+    setFilters({ [key]: value }, setOptions)
+  }
+
+  const { toggleArrayItem, toggleSort, setPrimarySort } =
+    createFilterToggles<S>(filters, (values) => setFilters(values))
+
+  const clearFilter = <K extends keyof S>(key: K) => {
+    setFilters({ [key]: null }, { debounceMs: 0 })
+  }
+
+  const goTo = (target: number) => {
+    const maxPage = pageCount ?? Number.POSITIVE_INFINITY
+    setPage(Math.min(Math.max(1, Math.floor(target)), maxPage))
+  }
+
+  const setPageSize = (value: number) => {
+    if (pageSizeOptions && !pageSizeOptions.includes(value)) return
+    write({ [pageSizeKey]: value, [pageKey]: null })
+  }
+
+  // 型は useFilters の戻り値と同じ
+  return {
+    setFilter: setFilter as UseFiltersReturn<S>['setFilter'],
+    setFilters: setFilters as UseFiltersReturn<S>['setFilters'],
+    toggleArrayItem,
+    toggleSort,
+    setPrimarySort,
+    clearFilter,
+    page,
+    pageSize,
+    pageSizeOptions,
+    pageCount,
+    hasPrev: page > 1,
+    hasNext: pageCount === undefined || page < pageCount,
+    goTo,
+    next: () => goTo(page + 1),
+    prev: () => goTo(page - 1),
+    setPageSize,
+  }
+}
@@ -0,0 +1,249 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ZodObject, ZodRawShape, z } from 'zod'
+import type { FilterSchema, InferState } from '../lib/filter-schema'
+import { createFilterLink, createSearchFormLink } from '../lib/filter-link'
+import {
+  createFilterLoader,
+  createFilterValidator,
+  createSearchFormLoader,
+  createSearchFormValidator,
+  type ParamsValidationResult,
+} from '../lib/search-params'
+import {
+  createPresetId,
+  getDefaultPresetStorage,
+  readPresets,
+  writePresets,
+  type PresetStorage,
+  type StoredPreset,
+} from '../lib/presets'
+import type { UrlError } from '../lib/url-validation'
+import type { SetFilterOptions } from './useFilters'
+
+// 読み込んだプリセット
+export type Preset<V> = {
+  id: string
+  name: string
+  // 現在のスキーマで検証済みの値（無効な項目はデフォルト値）
+  values: V
+  savedAt: string
+  // 保存後のスキーマ変更などで無効になった条件（適用時は無視される）
+  errors: UrlError[]
+}
+
+export type UsePresetsOptions = {
+  // 保存先のキー（ページ・フォームごとに一意にする）
+  storageKey: string
+  // 保存先（省略時は localStorage）
+  storage?: PresetStorage
+}
+
+export type UsePresetsReturn<V> = {
+  presets: Preset<V>[]
+  // 現在の条件を名前を付けて保存（同じ名前があれば上書き）
+  savePreset: (name: string) => void
+  // プリセットの条件を適用（1回の更新でURLに反映）
+  applyPreset: (id: string) => void
+  renamePreset: (id: string, name: string) => void
+  deletePreset: (id: string) => void
+}
+
+// 条件とクエリ文字列の変換
+type PresetCodec<V> = {
+  encode: (values: V) => string
+  decode: (query: string) => { values: V; errors: UrlError[] }
+}
+
+// 検証関数とパース関数からデコード関数を作る
+// 無効な項目があってもパース関数の結果（無効な項目はデフォルト値）を使う
+const createDecode =
+  <V>(
+    validate: (searchParams: URLSearchParams) => ParamsValidationResult<V>,
+    load: (searchParams: URLSearchParams) => V
+  ) =>
+  (query: string) => {
+    const searchParams = new URLSearchParams(query)
+    const result = validate(searchParams)
+    return result.success
+      ? { values: result.data, errors: [] }
+      : { values: load(searchParams), errors: result.errors }
+  }
+
+// リンク生成関数の結果からクエリ文字列を取り出す（'?a=1' → 'a=1'）
+const toQuery = (href: string) => href.replace(/^\?/, '')
+
+/**
+ * プリセットの保存・読み込みの共通処理
+ */
+function usePresetStore<V>(
+  { storageKey, storage: customStorage }: UsePresetsOptions,
+  codec: PresetCodec<V>,
+  currentValues: V,
+  apply: (values: V) => void
+): UsePresetsReturn<V> {
+  const storage = customStorage ?? getDefaultPresetStorage()
+  // サーバーとクライアントで初期表示を合わせるため、保存先はマウント後に読む
+  const [storedPresets, setStoredPresets] = useState<StoredPreset[]>([])
+
+  useEffect(() => {
+    if (!storage) return
+    const load = () => setStoredPresets(readPresets(storage, storageKey))
+    load()
+
+    // 他のタブでの変更を反映（localStorage の場合）
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) load()
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+    // 保存先のキーが変わったときだけ読み直す
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storageKey])
+
+  // 保存先の最新の内容に対して変更する（他のタブでの変更を上書きしない）
+  const update = (change: (presets: StoredPreset[]) => StoredPreset[]) => {
+    if (!storage) return
+    const next = change(readPresets(storage, storageKey))
+    if (writePresets(storage, storageKey, next)) setStoredPresets(next)
+  }
+
+  const presets = storedPresets.map(({ query, ...preset }) => ({
+    ...preset,
+    ...codec.decode(query),
+  }))
+
+  const savePreset = (name: string) => {
+    const query = codec.encode(currentValues)
+    const savedAt = new Date().toISOString()
+    update((current) => {
+      const existing = current.find((preset) => preset.name === name)
+      return existing
+        ? current.map((preset) =>
+            preset === existing ? { ...preset, query, savedAt } : preset
+          )
+        : [...current, { id: createPresetId(), name, query, savedAt }]
+    })
+  }
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find((item) => item.id === id)
+    if (preset) apply(preset.values)
+  }
+
+  const renamePreset = (id: string, name: string) => {
+    update((current) =>
+      current.map((preset) => (preset.id === id ? { ...preset, name } : preset))
+    )
+  }
+
+  const deletePreset = (id: string) => {
+    update((current) => current.filter((preset) => preset.id !== id))
+  }
+
+  return { presets, savePreset, applyPreset, renamePreset, deletePreset }
+}
+
+// =============================================================================
+// useFilters
+// =============================================================================
+
+export type UseFilterPresetsOptions<S extends FilterSchema> =
+  UsePresetsOptions & {
+    // 保存しないフィールド（ページ番号など）。適用しても現在の値のまま
+    exclude?: readonly (keyof S & string)[]
+  }
+
+/**
+ * useFilters の条件に名前を付けて保存・適用するフック
+ * usePagination と併用する場合は、ページのリセット付きの setFilters を渡す
+ *
+ * @example
+ * const { filters, setFilters } = useFilters(reportFilterSchema)
+ * const { presets, savePreset, applyPreset } = useFilterPresets(
+ *   reportFilterSchema,
+ *   { filters, setFilters },
+ *   { storageKey: 'report-filter-presets', exclude: ['page'] }
+ * )
+ */
+export function useFilterPresets<S extends FilterSchema>(
+  schema: S,
+  filtersApi: {
+    filters: InferState<S>
+    setFilters: (
+      values: Partial<InferState<S>>,
+      options?: SetFilterOptions
+    ) => void
+  },
+  options: UseFilterPresetsOptions<S>
+): UsePresetsReturn<InferState<S>> {
+  const { exclude = [] } = options
+
+  const withoutExcluded = (values: InferState<S>) =>
+    Object.fromEntries(
+      Object.entries(values).filter(([key]) => !exclude.includes(key))
+    ) as Partial<InferState<S>>
+
+  const link = createFilterLink(schema)
+  const codec: PresetCodec<InferState<S>> = {
+    encode: (values) => toQuery(link('', withoutExcluded(values))),
+    decode: createDecode(
+      createFilterValidator(schema),
+      createFilterLoader(schema)
+    ),
+  }
+
+  return usePresetStore(options, codec, filtersApi.filters, (values) =>
+    filtersApi.setFilters(withoutExcluded(values), { debounceMs: 0 })
+  )
+}
+
+// =============================================================================
+// useSearchForm
+// =============================================================================
+
+export type UseSearchFormPresetsOptions<T> = UsePresetsOptions & {
+  // useSearchForm と同じデフォルト値
+  // デフォルト値と同じ項目は保存しないので、適用時のデフォルト値（今月など）になる
+  defaultValues: T
+}
+
+/**
+ * useSearchForm の検索済みの条件（URLの値）に名前を付けて保存・適用するフック
+ * 適用するとフォームとURLの両方がプリセットの値になる
+ *
+ * @example
+ * const searchForm = useSearchForm(reportFormSchema, { defaultValues })
+ * const { presets, savePreset, applyPreset } = useSearchFormPresets(
+ *   reportFormSchema,
+ *   searchForm,
+ *   { storageKey: 'report-form-presets', defaultValues }
+ * )
+ */
+export function useSearchFormPresets<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  searchForm: {
+    urlState: z.infer<ZodObject<T>>
+    applyValues: (values: z.infer<ZodObject<T>>) => void
+  },
+  options: UseSearchFormPresetsOptions<z.infer<ZodObject<T>>>
+): UsePresetsReturn<z.infer<ZodObject<T>>> {
+  const { defaultValues } = options
+
+  const link = createSearchFormLink(schema, { defaultValues })
+  const codec: PresetCodec<z.infer<ZodObject<T>>> = {
+    encode: (values) => toQuery(link('', values)),
+    decode: createDecode(
+      createSearchFormValidator(schema, { defaultValues }),
+      createSearchFormLoader(schema, { defaultValues })
+    ),
+  }
+
+  return usePresetStore(
+    options,
+    codec,
+    searchForm.urlState,
+    searchForm.applyValues
+  )
+}
@@ -1,147 +1,149 @@
 "use client";
 
-import { useForm, type DefaultValues } from "react-hook-form";
+import {
+  useForm,
+  type DefaultValues,
+  type Path,
+  type PathValue,
+} from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useQueryStates } from "nuqs";
+import { useSearchParams } from "next/navigation";
+import { z, type ZodObject, type ZodRawShape } from "zod";
 import {
-  useQueryStates,
-  parseAsString,
-  parseAsInteger,
-  parseAsBoolean,
-  parseAsStringLiteral,
-  parseAsArrayOf,
-} from "nuqs";
-import { z, type ZodObject, type ZodRawShape, type ZodTypeAny } from "zod";
-
-// =============================================================================
-// 型定義
-// =============================================================================
-
-type ParserConfig =
-  | ReturnType<typeof parseAsString>
-  | ReturnType<typeof parseAsInteger>
-  | ReturnType<typeof parseAsBoolean>
-  | ReturnType<typeof parseAsStringLiteral>
-  | ReturnType<typeof parseAsArrayOf>;
-
-// =============================================================================
-// Zodスキーマからnuqsパーサーを生成
-// =============================================================================
-
-/**
- * Zodの型からnuqsのパーサーを生成
- */
-function zodToNuqsParser(zodType: ZodTypeAny): ParserConfig {
-  const typeName = zodType._def.typeName;
-
-  // Optional/Nullableの場合は内部の型を取得
-  if (typeName === "ZodOptional" || typeName === "ZodNullable") {
-    return zodToNuqsParser(zodType._def.innerType);
-  }
-
-  // Default値がある場合
-  if (typeName === "ZodDefault") {
-    return zodToNuqsParser(zodType._def.innerType);
-  }
-
-  switch (typeName) {
-    case "ZodString":
-      return parseAsString;
-
-    case "ZodNumber":
-      return parseAsInteger;
-
-    case "ZodBoolean":
-      return parseAsBoolean;
-
-    case "ZodEnum": {
-      const options = zodType._def.values as readonly string[];
-      return parseAsStringLiteral(options);
-    }
-
-    case "ZodArray": {
-      const elementType = zodType._def.type;
-      const elementTypeName = elementType._def.typeName;
-
-      if (elementTypeName === "ZodEnum") {
-        const options = elementType._def.values as readonly string[];
-        return parseAsArrayOf(parseAsStringLiteral(options)).withDefault([]);
-      }
-      // 文字列配列の場合
-      return parseAsArrayOf(parseAsString).withDefault([]);
-    }
-
-    default:
-      // フォールバック: 文字列として扱う
-      return parseAsString;
-  }
-}
-
-/**
- * Zodオブジェクトスキーマからnuqsのパーサーオブジェクトを生成
- */
-function createParsersFromZodSchema<T extends ZodRawShape>(
-  schema: ZodObject<T>
-): Record<string, ParserConfig> {
-  const shape = schema.shape;
-  const parsers: Record<string, ParserConfig> = {};
-
-  for (const [key, zodType] of Object.entries(shape)) {
-    parsers[key] = zodToNuqsParser(zodType as ZodTypeAny);
-  }
-
-  return parsers;
-}
+  createParsersFromZodSchema,
+  createUrlKeysFromZodSchema,
+  flattenZodValues,
+  getZodApiFields,
+  resolveZodUrlValues,
+  toZodUrlState,
+  unflattenZodValues,
+  type NestedKeyStyle,
+} from "../lib/zod-parsers";
+import {
+  CORRECTED_VALUE_MESSAGE,
+  checkUrlParams,
+} from "../lib/url-validation";
+import { buildApiParams, createToApiParams } from "../lib/api-params";
+import {
+  setPrimarySort as setPrimarySortItem,
+  toggleSort as toggleSortItem,
+  type SortDirection,
+  type SortItem,
+} from "../lib/sort";
+import { useUrlErrors } from "./useUrlErrors";
+import { useLiveSearch, type LiveSearchOptions } from "./useLiveSearch";
+import { useUrlFormSync } from "./useUrlFormSync";
 
 // =============================================================================
 // useSearchForm フック
 // =============================================================================
 
-type UseSearchFormOptions<T> = {
+type UseSearchFormOptions<T> = LiveSearchOptions & {
   defaultValues: T;
+  /** URLキーの接頭辞（1ページに複数のフォームを置く場合: left.page / right.page） */
+  namespace?: string;
+  /** ネストしたオブジェクトのURLキー（camel: dateFrom / dot: date.from） */
+  nestedKeys?: NestedKeyStyle;
+  /** false で検索時にサーバーコンポーネントを再レンダリング（createSearchFormCache と併用） */
+  shallow?: boolean;
 };
 
+// sortSchema のフィールド名と、並び替えできる列
+type SortFieldName<V> = {
+  [K in keyof V]: V[K] extends SortItem[] ? K : never;
+}[keyof V] &
+  string;
+type SortColumn<V, K extends keyof V> = V[K] extends SortItem<infer C>[] ? C : never;
+
 /**
  * Zodスキーマを使ってnuqsとreact-hook-formを統合するフック
+ * ネストしたオブジェクト（date: { from, to }）はURLではフラットなキーに展開される
+ * URLが外部から変わった場合（戻る/進むなど）は、入力中でない項目だけフォームに反映する
+ * mode: "live" では検索ボタンを待たずに、入力が止まったら有効な値だけURLに反映する
  *
  * @param schema - Zodオブジェクトスキーマ
- * @param options - オプション（defaultValues必須）
+ * @param options - オプション（defaultValues必須、namespaceでURLキーに接頭辞を付ける）
  *
  * @example
  * const { form, search, clearFilters } = useSearchForm(formSchema, {
  *   defaultValues: { keyword: "", status: "ACTIVE" },
  * });
+ *
+ * // 検索ボタンのない画面（入力が止まって 300ms 後に反映）
+ * const { form } = useSearchForm(formSchema, { defaultValues, mode: "live", debounceMs: 300 });
+ *
+ * // 並び替え（sortSchema のフィールド）は検索ボタンを待たずにURLへ反映する
+ * <th onClick={() => toggleSort("sort", "conversionDate")}>成果発生日</th>
  */
 export function useSearchForm<T extends ZodRawShape>(
   schema: ZodObject<T>,
   options: UseSearchFormOptions<z.infer<ZodObject<T>>>
 ) {
   type FormValues = z.infer<ZodObject<T>>;
-  const { defaultValues } = options;
-
-  // Zodスキーマからnuqsパーサーを生成
-  const parsers = createParsersFromZodSchema(schema);
-
-  // nuqsでURL状態を管理
-  const [urlState, setUrlState] = useQueryStates(parsers);
-
-  // URLの値とデフォルト値をマージして初期値を作成
-  const initialValues = Object.keys(defaultValues).reduce(
-    (acc, key) => {
-      const urlValue = urlState[key];
-      const defaultValue = (defaultValues as Record<string, unknown>)[key];
-
-      if (Array.isArray(defaultValue)) {
-        // 配列の場合: URLの配列が空でなければ使用
-        acc[key] =
-          (urlValue as unknown[])?.length > 0 ? urlValue : defaultValue;
-      } else {
-        // スカラーの場合: URLの値がnullでなければ使用
-        acc[key] = urlValue ?? defaultValue;
-      }
-      return acc;
-    },
-    {} as Record<string, unknown>
-  ) as FormValues;
+  const { defaultValues, namespace, nestedKeys, shallow, mode, debounceMs } =
+    options;
+
+  // Zodスキーマからnuqsパーサーを生成（デフォルト値はURLに書き込まない）
+  const parsers = createParsersFromZodSchema(
+    schema,
+    defaultValues as Record<string, unknown>
+  );
+
+  const urlKeys = createUrlKeysFromZodSchema(schema, { namespace, nestedKeys });
+
+  // nuqsでURL状態を管理（URLに値がない項目はデフォルト値になる）
+  const [flatUrlState, setFlatUrlState] = useQueryStates(parsers, {
+    urlKeys,
+    shallow,
+  });
+
+  // フォームと同じネストした形に戻す
+  const urlState = unflattenZodValues(schema, flatUrlState) as FormValues;
+
+  // URLの値（URLにない項目・Zodのルール違反はデフォルト値、日付範囲のルールで補正）
+  const {
+    values: flatValues,
+    errors: zodErrors,
+    corrections: zodCorrections,
+  } = resolveZodUrlValues(
+    schema,
+    flatUrlState,
+    defaultValues as Record<string, unknown>
+  );
+
+  // URLの値を検証（パースできない値 + Zodのルール違反）
+  const searchParams = useSearchParams();
+  const urlCheck = checkUrlParams(parsers, urlKeys, searchParams);
+  for (const [key, message] of Object.entries(zodErrors)) {
+    const urlKey = urlKeys[key]!;
+    const value = searchParams.get(urlKey);
+    // URLで指定された項目のみ対象（デフォルト値のエラーは送信時に表示される）
+    if (value === null || key in urlCheck.corrections) continue;
+    urlCheck.errors.push({ key, urlKey, value, message });
+    urlCheck.corrections[key] = null;
+  }
+  for (const [key, correction] of Object.entries(zodCorrections)) {
+    if (key in urlCheck.corrections) continue;
+    const urlKey = urlKeys[key]!;
+    const value = searchParams.get(urlKey);
+    // URLにない項目（デフォルト値）はエラーにせず補正だけする
+    if (value !== null) {
+      urlCheck.errors.push({
+        key,
+        urlKey,
+        value,
+        message: CORRECTED_VALUE_MESSAGE,
+      });
+    }
+    urlCheck.corrections[key] = correction;
+  }
+
+  // 無効な値はURLから削除し、エラーとして公開
+  const urlErrors = useUrlErrors(urlCheck, setFlatUrlState);
+
+  // 無効な値をデフォルト値に置き換えたものをフォームの初期値にする
+  const initialValues = unflattenZodValues(schema, flatValues) as FormValues;
 
   // react-hook-formを初期化（zodResolverでバリデーション）
   const form = useForm<FormValues>({
@@ -149,39 +151,94 @@ export function useSearchForm<T extends ZodRawShape>(
     defaultValues: initialValues as DefaultValues<FormValues>,
   });
 
-  // 検索実行: フォームの値をURLに反映
-  const search = form.handleSubmit((data) => {
-    const urlParams = Object.keys(data as Record<string, unknown>).reduce(
-      (acc, key) => {
-        const value = (data as Record<string, unknown>)[key];
-        // 空文字列はnullに変換（URLから削除）
-        acc[key] = value === "" ? null : value;
-        return acc;
-      },
-      {} as Record<string, unknown>
-    );
-    setUrlState(urlParams);
+  // URLが外部から変わったらフォームに反映し、入力中の値とURLの値の差分を求める
+  const urlSync = useUrlFormSync(form, initialValues, {
+    flatten: (values) => flattenZodValues(schema, values),
+    getEquals: (key) => parsers[key]?.eq,
   });
+  const { unappliedChanges, isOutOfSync, revertToUrl } = urlSync;
+
+  // フォームの値をURLに反映（空文字列は null にしてURLから削除）
+  const writeToUrl = (values: FormValues) => {
+    setFlatUrlState(toZodUrlState(schema, values as Record<string, unknown>));
+  };
+
+  // 検索実行: フォームの値をURLに反映
+  const search = form.handleSubmit(writeToUrl);
+
+  // live モード: 検証済みの値がURLと異なるときだけ反映
+  useLiveSearch(
+    form,
+    (values) => {
+      if (urlSync.differsFromUrl(values)) writeToUrl(values);
+    },
+    { mode, debounceMs }
+  );
+
+  // フォームとURLを指定した値にする（保存した条件の適用など）
+  const applyValues = (values: FormValues) => {
+    form.reset(values as DefaultValues<FormValues>);
+    writeToUrl(values);
+  };
 
   // フィルターをクリア
   const clearFilters = () => {
-    form.reset(defaultValues as DefaultValues<FormValues>);
-    const urlParams = Object.keys(defaultValues as Record<string, unknown>).reduce(
-      (acc, key) => {
-        const value = (defaultValues as Record<string, unknown>)[key];
-        acc[key] = value === "" ? null : value;
-        return acc;
-      },
-      {} as Record<string, unknown>
+    applyValues(defaultValues);
+  };
+
+  // 並び替えを変更してすぐにURLへ反映（他の項目は入力中でも検索済みの値のまま）
+  const applySort = (
+    name: string,
+    update: (sort: SortItem[]) => SortItem[]
+  ) => {
+    const sort = update(flatValues[name] as SortItem[]);
+    form.setValue(
+      name as Path<FormValues>,
+      sort as PathValue<FormValues, Path<FormValues>>
     );
-    setUrlState(urlParams);
+    setFlatUrlState({ [name]: sort });
+  };
+
+  // 列の並び替えを 昇順 → 降順 → なし の順に切り替える
+  const toggleSort = <K extends SortFieldName<FormValues>>(
+    name: K,
+    column: SortColumn<FormValues, K>
+  ) => {
+    applySort(name, (sort) => toggleSortItem(sort, column));
+  };
+
+  // 列を最優先の並び替えにする（他の列は優先度を下げて残す）
+  const setPrimarySort = <K extends SortFieldName<FormValues>>(
+    name: K,
+    column: SortColumn<FormValues, K>,
+    direction?: SortDirection
+  ) => {
+    applySort(name, (sort) => setPrimarySortItem(sort, column, direction));
   };
 
+  // 検索済みの条件（URLの値）からAPI呼び出し用パラメータを組み立て
+  // フィールドごとの名前・変換は withApiParam で指定する
+  const toApiParams = createToApiParams(() =>
+    buildApiParams(getZodApiFields(schema, initialValues))
+  );
+
   return {
     form,
     search,
     clearFilters,
+    applyValues,
+    toggleSort,
+    setPrimarySort,
     /** 現在のURL状態（読み取り専用） */
     urlState,
+    /** 検索ボタンを押していない変更（フィールドごとのフォームの値とURLの値） */
+    unappliedChanges,
+    /** フォームの値がURLと異なる（検索結果に反映されていない入力がある） */
+    isOutOfSync,
+    revertToUrl,
+    /** API呼び出し用パラメータ（object / searchParams / json） */
+    toApiParams,
+    /** 読み込み時にURLから無視・補正したパラメータ */
+    urlErrors,
   };
 }
@@ -0,0 +1,208 @@
+'use client'
+
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react'
+import type { ZodObject, ZodRawShape, z } from 'zod'
+import type { FilterSchema, InferState } from '../lib/filter-schema'
+import { getZodTextFieldKeys } from '../lib/zod-parsers'
+import type { SetFilterOptions } from './useFilters'
+
+export type UseUndoOptions = {
+  // 保持する操作の数（デフォルト 50。古いものから削除）
+  limit?: number
+  // 同じテキスト項目への入力をこの時間（ms）以内なら1つの操作にまとめる（デフォルト 1000）
+  coalesceMs?: number
+}
+
+export type UseUndoReturn = {
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+  // フィルターパネルの onKeyDown に渡す（Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y。Mac は Cmd）
+  handleKeyDown: (event: KeyboardEvent) => void
+}
+
+type Snapshot<V> = {
+  values: V
+  // 比較用（JSON文字列）
+  key: string
+}
+
+const DEFAULT_LIMIT = 50
+const DEFAULT_COALESCE_MS = 1000
+
+const toSnapshot = <V>(values: V): Snapshot<V> => ({
+  values,
+  key: JSON.stringify(values),
+})
+
+// 値が変わった項目（トップレベルのキー）
+const getChangedKeys = (
+  previous: Record<string, unknown>,
+  current: Record<string, unknown>
+) =>
+  Object.keys(current).filter(
+    (key) => JSON.stringify(previous[key]) !== JSON.stringify(current[key])
+  )
+
+/**
+ * 取り消し・やり直しの共通処理
+ *
+ * 適用された状態（URLの値）の変化を記録する。どの操作で変わったか
+ * （setFilter・clearFilters・ページのリセットなど）に関係なく1回の変化が1つの操作になる
+ */
+function useUndoStack<V extends Record<string, unknown>>(
+  current: V,
+  apply: (values: V) => void,
+  isTextField: (key: string) => boolean,
+  { limit = DEFAULT_LIMIT, coalesceMs = DEFAULT_COALESCE_MS }: UseUndoOptions
+): UseUndoReturn {
+  const pastRef = useRef<Snapshot<V>[]>([])
+  const futureRef = useRef<Snapshot<V>[]>([])
+  const lastRef = useRef<Snapshot<V> | null>(null)
+  // 直前の操作（テキスト入力をまとめるため）
+  const lastEditRef = useRef<{ key: string; time: number } | null>(null)
+  // 取り消し・やり直しできるかの表示を更新するため
+  const [, setVersion] = useState(0)
+
+  const snapshot = toSnapshot(current)
+
+  useEffect(() => {
+    const last = lastRef.current
+    lastRef.current = snapshot
+    if (!last || last.key === snapshot.key) return
+
+    const changedKeys = getChangedKeys(last.values, snapshot.values)
+    const textKey =
+      changedKeys.length === 1 && isTextField(changedKeys[0]!)
+        ? changedKeys[0]!
+        : null
+    const now = Date.now()
+    const lastEdit = lastEditRef.current
+    lastEditRef.current = textKey ? { key: textKey, time: now } : null
+
+    // 同じテキスト項目への続けての入力は、入力を始める前の状態だけを残す
+    if (textKey && lastEdit?.key === textKey && now - lastEdit.time < coalesceMs) {
+      return
+    }
+
+    pastRef.current = [...pastRef.current, last].slice(-limit)
+    futureRef.current = []
+    setVersion((version) => version + 1)
+    // 状態が変わったときだけ記録する
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [snapshot.key])
+
+  // 記録した状態に戻す（戻した状態は変化として記録しない）
+  const restore = (target: Snapshot<V>) => {
+    lastRef.current = target
+    lastEditRef.current = null
+    apply(target.values)
+    setVersion((version) => version + 1)
+  }
+
+  const undo = () => {
+    const target = pastRef.current[pastRef.current.length - 1]
+    if (!target || !lastRef.current) return
+    pastRef.current = pastRef.current.slice(0, -1)
+    futureRef.current = [...futureRef.current, lastRef.current]
+    restore(target)
+  }
+
+  const redo = () => {
+    const target = futureRef.current[futureRef.current.length - 1]
+    if (!target || !lastRef.current) return
+    futureRef.current = futureRef.current.slice(0, -1)
+    pastRef.current = [...pastRef.current, lastRef.current]
+    restore(target)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+    const key = event.key.toLowerCase()
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault()
+      undo()
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault()
+      redo()
+    }
+  }
+
+  return {
+    undo,
+    redo,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+    handleKeyDown,
+  }
+}
+
+// =============================================================================
+// useFilters
+// =============================================================================
+
+/**
+ * useFilters の変更を取り消し・やり直しするフック
+ * 戻した状態はURLの履歴を置き換えて書き込む（ブラウザの戻る/進むの履歴は増やさない）
+ *
+ * usePagination と併用する場合も useFilters の戻り値をそのまま渡す
+ * （ページ番号も含めて元の状態に戻す）
+ *
+ * @example
+ * const query = useFilters(reportFilterSchema)
+ * const { undo, redo, canUndo, canRedo, handleKeyDown } = useFilterUndo(reportFilterSchema, query)
+ * <div onKeyDown={handleKeyDown}>...フィルターパネル...</div>
+ */
+export function useFilterUndo<S extends FilterSchema>(
+  schema: S,
+  filtersApi: {
+    filters: InferState<S>
+    setFilters: (
+      values: Partial<InferState<S>>,
+      options?: SetFilterOptions
+    ) => void
+  },
+  options: UseUndoOptions = {}
+): UseUndoReturn {
+  return useUndoStack(
+    filtersApi.filters as Record<string, unknown>,
+    (values) =>
+      filtersApi.setFilters(values as Partial<InferState<S>>, {
+        debounceMs: 0,
+        history: 'replace',
+      }),
+    (key) => schema[key]?.type === 'string',
+    options
+  )
+}
+
+// =============================================================================
+// useSearchForm
+// =============================================================================
+
+/**
+ * useSearchForm の検索済みの条件（URLの値）の変更を取り消し・やり直しするフック
+ * 戻すとフォームとURLの両方がその時点の値になる
+ *
+ * @example
+ * const searchForm = useSearchForm(reportFormSchema, { defaultValues })
+ * const { undo, redo, canUndo, canRedo } = useSearchFormUndo(reportFormSchema, searchForm)
+ */
+export function useSearchFormUndo<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  searchForm: {
+    urlState: z.infer<ZodObject<T>>
+    applyValues: (values: z.infer<ZodObject<T>>) => void
+  },
+  options: UseUndoOptions = {}
+): UseUndoReturn {
+  const textFieldKeys = getZodTextFieldKeys(schema)
+
+  return useUndoStack(
+    searchForm.urlState as Record<string, unknown>,
+    (values) => searchForm.applyValues(values as z.infer<ZodObject<T>>),
+    (key) => textFieldKeys.includes(key),
+    options
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { UrlCheckResult, UrlError } from '../lib/url-validation'
+
+/**
+ * URLの検証結果を保持し、無効な値をURLから取り除くフック
+ *
+ * URLを書き換えた後も検出したエラーは残るので、
+ * 「このリンクの一部の条件は無視されました」のような通知に使える
+ *
+ * @param result - 現在のURLの検証結果
+ * @param applyCorrections - 補正した値をURLに書き込む関数
+ */
+export function useUrlErrors(
+  result: UrlCheckResult,
+  applyCorrections: (corrections: Record<string, unknown>) => void
+): UrlError[] {
+  const [urlErrors, setUrlErrors] = useState<UrlError[]>([])
+  const resultKey = JSON.stringify(result.errors)
+
+  useEffect(() => {
+    if (result.errors.length === 0) return
+    setUrlErrors(result.errors)
+    applyCorrections(result.corrections)
+    // URLの値が変わったときだけ検証結果を反映する
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resultKey])
+
+  return urlErrors
+}
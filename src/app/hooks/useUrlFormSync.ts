@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type {
+  DefaultValues,
+  FieldValues,
+  Path,
+  PathValue,
+  UseFormReturn,
+} from 'react-hook-form'
+import { findUnappliedChanges, findUrlUpdates } from '../lib/form-sync'
+
+type Equals = (a: unknown, b: unknown) => boolean
+
+export type UrlFormSyncOptions = {
+  // フォームの値をURLと同じフラットなキー（"date.from"）に展開する（省略時はそのまま）
+  flatten?: (values: Record<string, unknown>) => Record<string, unknown>
+  // フィールドの比較関数（パーサーの eq）
+  getEquals: (key: string) => Equals | undefined
+}
+
+const identity = (values: Record<string, unknown>) => values
+
+/**
+ * 検索ボタンで適用するフォームとURLの同期（useSearchForm / useUrlForm）
+ *
+ * URLが外部から変わったら（戻る/進む・同じページへのリンク・プリセットの適用など）フォームに反映する。
+ * useForm は初回の defaultValues しか使わないため。入力中の項目は上書きしない
+ *
+ * @param form - react-hook-form のフォーム
+ * @param urlValues - URLの値（フォームと同じ形。URLにない項目はデフォルト値）
+ * @param options - flatten / getEquals
+ */
+export function useUrlFormSync<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  urlValues: T,
+  { flatten = identity, getEquals }: UrlFormSyncOptions
+) {
+  const flatUrlValues = flatten(urlValues)
+
+  const previousUrlValuesRef = useRef(flatUrlValues)
+  const urlValuesKey = JSON.stringify(flatUrlValues)
+  useEffect(() => {
+    const previousUrlValues = previousUrlValuesRef.current
+    previousUrlValuesRef.current = flatUrlValues
+    const updates = findUrlUpdates(
+      flatten(form.getValues()),
+      previousUrlValues,
+      flatUrlValues,
+      getEquals
+    )
+    for (const [key, value] of Object.entries(updates)) {
+      form.setValue(key as Path<T>, value as PathValue<T, Path<T>>)
+    }
+    // URLの値が変わったときだけ反映する
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [urlValuesKey])
+
+  // 値とURLの値の差分（キーは展開後のフィールド名で、react-hook-form のフィールド名と同じ）
+  const findChanges = (values: T) =>
+    findUnappliedChanges(flatten(values), flatUrlValues, getEquals)
+
+  // 入力中の値とURLの値（検索結果が反映している条件）の差分
+  const unappliedChanges = findChanges(form.watch())
+
+  return {
+    /** 検索ボタンを押していない変更（フィールドごとのフォームの値とURLの値） */
+    unappliedChanges,
+    /** フォームの値がURLと異なる（検索結果に反映されていない入力がある） */
+    isOutOfSync: Object.keys(unappliedChanges).length > 0,
+    /** 値がURLと異なる（live モードで、同じ値ならURLに書き込まないために使う） */
+    differsFromUrl: (values: T) => Object.keys(findChanges(values)).length > 0,
+    /** 適用していない入力を破棄してURLの値に戻す */
+    revertToUrl: () => form.reset(urlValues as DefaultValues<T>),
+  }
+}
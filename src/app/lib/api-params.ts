@@ -0,0 +1,154 @@
+/**
+ * フィルターの状態 → API呼び出し用パラメータの変換
+ *
+ * FilterSchema のフィールド（api オプション）や Zodスキーマのフィールド（withApiParam）に
+ * APIでの名前・変換方法を宣言しておき、useFilters / useSearchForm の toApiParams で組み立てる
+ */
+
+import { formatIsoDate, parseIsoDate } from './parsers'
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * フィールドごとのAPIパラメータの設定
+ */
+export type ApiParamMapping = {
+  // APIでのパラメータ名（省略時はフィールド名。日付範囲は From / To を付ける）
+  name?: string
+  // 値の変換（日付範囲は from / to それぞれに適用）。undefined / null を返すと送らない
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  transform?: (value: any) => unknown
+  // 空の値（null・空文字・空配列）も送る（デフォルトは送らない）
+  keepEmpty?: boolean
+  // 選択肢をすべて選んでいる場合は送らない（絞り込みなしと同じ扱いのAPI向け）
+  omitAllSelected?: boolean
+  // APIに送らない（画面だけで使う項目）
+  exclude?: boolean
+}
+
+/**
+ * API用に展開したフィールド（スキーマの種類ごとに生成する）
+ */
+export type ApiField = {
+  // フィールド名（name を指定しない場合のパラメータ名）
+  key: string
+  value: unknown
+  mapping?: ApiParamMapping
+  // 選択肢（omitAllSelected の判定に使う）
+  options?: readonly unknown[]
+}
+
+export type ApiParams = Record<string, unknown>
+
+// toApiParams の出力形式
+export type ApiParamsFormat = 'object' | 'searchParams' | 'json'
+
+export type ToApiParams = {
+  (format?: 'object'): ApiParams
+  (format: 'searchParams'): URLSearchParams
+  (format: 'json'): string
+}
+
+// =============================================================================
+// 変換関数（transform に指定する）
+// =============================================================================
+
+const toDate = (value: Date | string | null) =>
+  typeof value === 'string' ? parseIsoDate(value) : value
+
+/**
+ * 日付を時刻付きのISO文字列に変換（2024-01-01 → 2024-01-01T00:00:00.000Z）
+ * Date と YYYY-MM-DD 形式の文字列のどちらも受け付ける
+ */
+export const toIsoDateTime = (value: Date | string | null) =>
+  toDate(value)?.toISOString()
+
+/**
+ * 日付をその日の終わりのISO文字列に変換（2024-01-31 → 2024-01-31T23:59:59.999Z）
+ * 期間の終了日を「その日を含む」として送る場合に使う
+ */
+export const toEndOfDayIsoDateTime = (value: Date | string | null) => {
+  const date = toDate(value)
+  return date
+    ? new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1).toISOString()
+    : undefined
+}
+
+// =============================================================================
+// パラメータの組み立て
+// =============================================================================
+
+const isEmptyValue = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0)
+
+const isAllSelected = (value: unknown, options: readonly unknown[]) =>
+  Array.isArray(value) && options.every((option) => value.includes(option))
+
+// transform を指定しない場合、Date はURLと同じ YYYY-MM-DD 形式にする
+const defaultTransform = (value: unknown) =>
+  value instanceof Date ? formatIsoDate(value) : value
+
+/**
+ * フィールドの一覧からAPIパラメータ（プレーンなオブジェクト）を組み立てる
+ */
+export function buildApiParams(fields: ApiField[]): ApiParams {
+  const params: ApiParams = {}
+
+  for (const { key, value, mapping = {}, options } of fields) {
+    if (mapping.exclude) continue
+    if (mapping.omitAllSelected && options && isAllSelected(value, options)) {
+      continue
+    }
+
+    const apiValue = isEmptyValue(value)
+      ? value
+      : (mapping.transform ?? defaultTransform)(value)
+    if (isEmptyValue(apiValue) && !mapping.keepEmpty) continue
+
+    params[mapping.name ?? key] = apiValue ?? null
+  }
+
+  return params
+}
+
+/**
+ * APIパラメータをURLSearchParamsに変換
+ * 配列は同じキーを繰り返す（statuses=PENDING&statuses=APPROVED）
+ */
+export function toApiSearchParams(params: ApiParams): URLSearchParams {
+  const searchParams = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value]
+    values.forEach((item) =>
+      searchParams.append(key, item === null ? '' : String(item))
+    )
+  })
+  return searchParams
+}
+
+/**
+ * パラメータを組み立てる関数から、出力形式を選べる toApiParams を生成
+ *
+ * @example
+ * toApiParams()               // { keyword: 'test', statuses: ['PENDING'] }
+ * toApiParams('searchParams') // URLSearchParams（GETのクエリ文字列）
+ * toApiParams('json')         // '{"keyword":"test",...}'（POSTのボディ）
+ */
+export function createToApiParams(getParams: () => ApiParams): ToApiParams {
+  return ((format: ApiParamsFormat = 'object') => {
+    const params = getParams()
+    switch (format) {
+      case 'searchParams':
+        return toApiSearchParams(params)
+      case 'json':
+        return JSON.stringify(params)
+      default:
+        return params
+    }
+  }) as ToApiParams
+}
@@ -0,0 +1,178 @@
+/**
+ * フィルター状態を1つのURLパラメータにまとめる形式（?s=1.xxxx）
+ *
+ * 複数選択の項目や長いキーワードでURLが長くなると、チャットツールや
+ * 一部のプロキシで切れてしまう。通常の形式のクエリ文字列が maxLength を
+ * 超えたときだけ圧縮して1つのパラメータにまとめるので、短い条件は今までどおり
+ * 読みやすいURLになる。読み込み時は両方の形式を受け付ける（通常の形式の古いリンクも開ける）
+ */
+
+import { createLoader, createSerializer, parseAsString } from 'nuqs/server'
+import {
+  createParsersFromFilterSchema,
+  createUrlKeysFromFilterSchema,
+  findDateRangeRuleViolations,
+  type FilterSchema,
+} from './filter-schema'
+import { compressToBase64Url, decompressFromBase64Url } from './encoding'
+import { withNamespace } from './url-keys'
+import {
+  INVALID_VALUE_MESSAGE,
+  checkUrlParams,
+  type UrlCheckResult,
+} from './url-validation'
+
+export type CompactUrlOptions = {
+  // まとめたときのURLパラメータ名（デフォルト 's'。スキーマのURLキーと重ならないようにする）
+  param?: string
+  // 通常の形式のクエリ文字列がこの文字数を超えたらまとめる（デフォルト 1500）
+  maxLength?: number
+}
+
+// useFilters / サーバー側の読み取り / リンク生成に共通のオプション
+export type FilterUrlOptions = {
+  namespace?: string
+  // true または設定で、長いURLを1つのパラメータにまとめる
+  compact?: boolean | CompactUrlOptions
+}
+
+type SearchParamsLike = { get: (name: string) => string | null }
+
+// nuqsの状態でまとめた値を持つキー
+export const PACKED_STATE_KEY = '$packed'
+// まとめた値の形式のバージョン（形式を変えても古いリンクを読めるようにする）
+const PACKED_FORMAT_PREFIX = '1.'
+
+const DEFAULT_PARAM = 's'
+const DEFAULT_MAX_LENGTH = 1500
+// まとめた値を戻したクエリ文字列の最大バイト数
+// 細工した ?s=... でサーバーのメモリを使い切らせないよう、これを超えるものは壊れた値として扱う
+const MAX_UNPACKED_BYTES = 64 * 1024
+
+/**
+ * FilterSchema のURL形式
+ * - parsers / urlKeys: nuqsに渡すパーサーとURLキー（まとめる場合はまとめた値のキーを含む）
+ * - unpack: nuqsの状態からフィルターの状態（通常の形式のキー）を取り出す
+ * - pack: 現在のnuqsの状態に変更を反映したURL更新を作る
+ * - check: URLの値を検証（まとめた値はその中身を検証する。日付範囲のルールを含む）
+ */
+export function createFilterUrlFormat(
+  schema: FilterSchema,
+  { namespace, compact }: FilterUrlOptions = {}
+) {
+  const parsers = createParsersFromFilterSchema(schema)
+  const urlKeys = createUrlKeysFromFilterSchema(schema, namespace)
+
+  // パーサーでの検証に加えて、日付範囲のルールに違反する値を補正・無効にする
+  const checkQuery = (query: SearchParamsLike): UrlCheckResult => {
+    const result = checkUrlParams(parsers, urlKeys, query)
+    const state = Object.fromEntries(
+      Object.entries(parsers).map(([key, parser]) => [
+        key,
+        parser.parseServerSide(query.get(urlKeys[key]!) ?? undefined),
+      ])
+    )
+
+    for (const violation of findDateRangeRuleViolations(schema, state)) {
+      const { key, message, correction } = violation
+      if (key in result.corrections) continue
+      const urlKey = urlKeys[key]!
+      const value = query.get(urlKey)
+      // URLにないキー（デフォルト値）はエラーにせず補正だけする
+      if (value !== null) result.errors.push({ key, urlKey, value, message })
+      result.corrections[key] = correction
+    }
+    return result
+  }
+
+  if (!compact) {
+    return {
+      parsers,
+      urlKeys,
+      unpack: (state: Record<string, unknown>) => state,
+      pack: (_state: Record<string, unknown>, values: Record<string, unknown>) =>
+        values,
+      check: checkQuery,
+    }
+  }
+
+  const { param = DEFAULT_PARAM, maxLength = DEFAULT_MAX_LENGTH } =
+    compact === true ? {} : compact
+  const packedUrlKey = withNamespace(param, namespace)
+  const serialize = createSerializer(parsers, { urlKeys })
+  const load = createLoader(parsers, { urlKeys })
+
+  // まとめた値を通常の形式のクエリに戻す（壊れている場合は null）
+  const decode = (packed: string): URLSearchParams | null => {
+    if (!packed.startsWith(PACKED_FORMAT_PREFIX)) return null
+    try {
+      return new URLSearchParams(
+        decompressFromBase64Url(
+          packed.slice(PACKED_FORMAT_PREFIX.length),
+          MAX_UNPACKED_BYTES
+        )
+      )
+    } catch {
+      return null
+    }
+  }
+
+  const unpack = (state: Record<string, unknown>): Record<string, unknown> => {
+    const { [PACKED_STATE_KEY]: packed, ...plain } = state
+    const query = typeof packed === 'string' ? decode(packed) : null
+    return query ? load(query) : plain
+  }
+
+  // 通常の形式で maxLength を超え、圧縮した方が短い場合だけまとめる
+  // 長さはURLでのエンコード後（日本語などはパーセントエンコードされる）で比べる
+  // 戻すときの上限（MAX_UNPACKED_BYTES）を超えるものは読み込めないので、まとめない
+  const pack = (
+    state: Record<string, unknown>,
+    values: Record<string, unknown>
+  ): Record<string, unknown> => {
+    const changes = { ...values }
+    delete changes[PACKED_STATE_KEY]
+    const next = { ...unpack(state), ...changes }
+    const query = serialize(next).replace(/^\?/, '')
+    const length = new URLSearchParams(query).toString().length
+    const packed =
+      length > maxLength && length <= MAX_UNPACKED_BYTES
+        ? `${PACKED_FORMAT_PREFIX}${compressToBase64Url(query)}`
+        : null
+
+    if (!packed || packed.length >= length) {
+      return { ...next, [PACKED_STATE_KEY]: null }
+    }
+    return {
+      ...Object.fromEntries(Object.keys(parsers).map((key) => [key, null])),
+      [PACKED_STATE_KEY]: packed,
+    }
+  }
+
+  // まとめた値がある場合は通常の形式のパラメータは使わないので、中身だけを検証する
+  const check = (searchParams: SearchParamsLike): UrlCheckResult => {
+    const packed = searchParams.get(packedUrlKey)
+    if (packed === null) return checkQuery(searchParams)
+
+    const query = decode(packed)
+    if (query) return checkQuery(query)
+
+    const result = checkUrlParams(parsers, urlKeys, searchParams)
+    result.errors.push({
+      key: PACKED_STATE_KEY,
+      urlKey: packedUrlKey,
+      value: packed,
+      message: INVALID_VALUE_MESSAGE,
+    })
+    result.corrections[PACKED_STATE_KEY] = null
+    return result
+  }
+
+  return {
+    parsers: { ...parsers, [PACKED_STATE_KEY]: parseAsString },
+    urlKeys: { ...urlKeys, [PACKED_STATE_KEY]: packedUrlKey },
+    unpack,
+    pack,
+    check,
+  }
+}
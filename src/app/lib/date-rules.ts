@@ -0,0 +1,131 @@
+/**
+ * 日付範囲のルール（開始日と終了日の順序・最大期間・未来日）
+ *
+ * FilterSchema の dateRange（rules オプション）と Zod の withDateRangeRules の両方から使う
+ * ルールごとに、違反したURLを無効にする（error）か補正する（correct）かを選べる
+ */
+
+import type { DateRange } from './parsers'
+
+/**
+ * ルールに違反したURLの値の扱い
+ * - error: 無効な値としてエラーにする（日付範囲はデフォルト値になる）
+ * - correct: 補正する（入れ替え・期間を縮める・今日にする）
+ */
+export type DateRuleMode = 'error' | 'correct'
+
+export type DateRangeRules = {
+  // 終了日が開始日より前（correct: 開始日と終了日を入れ替える）
+  order?: DateRuleMode
+  // 期間の最大日数（開始日・終了日を含む。correct: 開始日を終了日から days 日以内にする）
+  maxDays?: { days: number; mode: DateRuleMode }
+  // 今日より後の日付（correct: 今日にする）
+  noFuture?: DateRuleMode
+}
+
+export type DateRangeRuleError = {
+  // ルールに違反した側
+  field: 'from' | 'to'
+  message: string
+}
+
+export type DateRangeRuleResult = {
+  // correct のルールを適用した日付範囲
+  range: DateRange
+  // correct のルールで補正した
+  corrected: boolean
+  // error のルールの違反
+  errors: DateRangeRuleError[]
+}
+
+export const DATE_ORDER_MESSAGE = '開始日は終了日以前の日付を指定してください'
+export const DATE_FUTURE_MESSAGE = '未来の日付は指定できません'
+export const dateMaxDaysMessage = (days: number) =>
+  `期間は${days}日以内で指定してください`
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 今日（URLの日付と同じくUTCの0時）
+const getToday = () => {
+  const now = new Date()
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+}
+
+// 開始日・終了日を含む日数
+const countDays = (from: Date, to: Date) =>
+  Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1
+
+/**
+ * 日付範囲にルールを適用
+ * 片側だけの範囲は、両側が必要なルール（順序・最大期間）の対象外
+ *
+ * @param range - 日付範囲（URLの値）
+ * @param rules - ルール
+ * @param today - 未来日の判定に使う今日の日付（デフォルトは実行時の日付）
+ */
+export function applyDateRangeRules(
+  range: DateRange,
+  rules: DateRangeRules,
+  today: Date = getToday()
+): DateRangeRuleResult {
+  let { from, to } = range
+  let corrected = false
+  const errors: DateRangeRuleError[] = []
+
+  if (rules.noFuture) {
+    for (const field of ['from', 'to'] as const) {
+      const date = field === 'from' ? from : to
+      if (!date || date.getTime() <= today.getTime()) continue
+      if (rules.noFuture === 'error') {
+        errors.push({ field, message: DATE_FUTURE_MESSAGE })
+        continue
+      }
+      if (field === 'from') from = today
+      else to = today
+      corrected = true
+    }
+  }
+
+  if (rules.order && from && to && from.getTime() > to.getTime()) {
+    if (rules.order === 'error') {
+      errors.push({ field: 'to', message: DATE_ORDER_MESSAGE })
+    } else {
+      ;[from, to] = [to, from]
+      corrected = true
+    }
+  }
+
+  const { maxDays } = rules
+  if (
+    maxDays &&
+    from &&
+    to &&
+    from.getTime() <= to.getTime() &&
+    countDays(from, to) > maxDays.days
+  ) {
+    if (maxDays.mode === 'error') {
+      errors.push({ field: 'from', message: dateMaxDaysMessage(maxDays.days) })
+    } else {
+      from = new Date(to.getTime() - (maxDays.days - 1) * DAY_MS)
+      corrected = true
+    }
+  }
+
+  return { range: { from, to }, corrected, errors }
+}
+
+/**
+ * すべてのルールを error として扱う
+ * フォームの入力は補正せずに検証エラーとして表示するために使う
+ */
+export function toErrorRules({
+  order,
+  maxDays,
+  noFuture,
+}: DateRangeRules): DateRangeRules {
+  return {
+    order: order && 'error',
+    maxDays: maxDays && { ...maxDays, mode: 'error' },
+    noFuture: noFuture && 'error',
+  }
+}
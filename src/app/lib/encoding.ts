@@ -0,0 +1,153 @@
+/**
+ * URL向けのエンコード
+ */
+
+const bytesToBase64Url = (bytes: ArrayLike<number>): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]!)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const base64UrlToBytes = (encoded: string): Uint8Array => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64)
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * 文字列をbase64url（URLセーフ・パディングなし）に変換
+ * UTF-8として扱うため日本語も含められる
+ */
+export function encodeBase64Url(text: string): string {
+  return bytesToBase64Url(new TextEncoder().encode(text))
+}
+
+/**
+ * base64url を元の文字列に戻す
+ * 不正な入力の場合は例外を投げる
+ */
+export function decodeBase64Url(encoded: string): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(
+    base64UrlToBytes(encoded)
+  )
+}
+
+// =============================================================================
+// 圧縮（LZW）
+// =============================================================================
+
+// 辞書の最大サイズ（コードは最大12ビット）
+const MAX_DICTIONARY_SIZE = 4096
+
+// k 番目（0始まり）に出力するコードのビット数
+// 出力のたびに辞書が1つ増えるので、圧縮側と展開側で同じ値になる
+const codeWidth = (index: number) =>
+  Math.min(256 + index, MAX_DICTIONARY_SIZE - 1).toString(2).length
+
+function lzwCompress(input: Uint8Array): number[] {
+  const dictionary = new Map<string, number>()
+  for (let i = 0; i < 256; i++) dictionary.set(String.fromCharCode(i), i)
+
+  const output: number[] = []
+  let buffer = 0
+  let bufferBits = 0
+  let count = 0
+  const writeCode = (code: number) => {
+    const width = codeWidth(count++)
+    buffer = (buffer << width) | code
+    bufferBits += width
+    while (bufferBits >= 8) {
+      bufferBits -= 8
+      output.push((buffer >> bufferBits) & 0xff)
+    }
+    buffer &= (1 << bufferBits) - 1
+  }
+
+  let phrase = ''
+  input.forEach((byte) => {
+    const candidate = phrase + String.fromCharCode(byte)
+    if (dictionary.has(candidate)) {
+      phrase = candidate
+      return
+    }
+    writeCode(dictionary.get(phrase)!)
+    if (dictionary.size < MAX_DICTIONARY_SIZE) {
+      dictionary.set(candidate, dictionary.size)
+    }
+    phrase = String.fromCharCode(byte)
+  })
+  if (phrase) writeCode(dictionary.get(phrase)!)
+  if (bufferBits > 0) output.push((buffer << (8 - bufferBits)) & 0xff)
+
+  return output
+}
+
+function lzwDecompress(input: Uint8Array, maxBytes: number): Uint8Array {
+  const dictionary: number[][] = []
+  for (let i = 0; i < 256; i++) dictionary.push([i])
+
+  const output: number[] = []
+  let buffer = 0
+  let bufferBits = 0
+  let position = 0
+  let count = 0
+  // 最後のバイトの余りビットはコード1つ分に満たないので読まない
+  const readCode = (): number | null => {
+    const width = codeWidth(count++)
+    while (bufferBits < width) {
+      if (position >= input.length) return null
+      buffer = (buffer << 8) | input[position++]!
+      bufferBits += 8
+    }
+    bufferBits -= width
+    const code = (buffer >> bufferBits) & ((1 << width) - 1)
+    buffer &= (1 << bufferBits) - 1
+    return code
+  }
+
+  let previous: number[] | null = null
+  for (let code = readCode(); code !== null; code = readCode()) {
+    let entry = dictionary[code]
+    if (!entry) {
+      // 直前に追加されるはずだったエントリ（圧縮側が先に追加している）
+      if (!previous || code !== dictionary.length) {
+        throw new Error('Invalid compressed data')
+      }
+      entry = [...previous, previous[0]!]
+    }
+    if (output.length + entry.length > maxBytes) {
+      throw new Error('Decompressed data is too large')
+    }
+    output.push(...entry)
+    if (previous && dictionary.length < MAX_DICTIONARY_SIZE) {
+      dictionary.push([...previous, entry[0]!])
+    }
+    previous = entry
+  }
+
+  return Uint8Array.from(output)
+}
+
+/**
+ * 文字列を圧縮してbase64urlに変換
+ * クエリ文字列のように同じキー・値が繰り返される文字列ほど短くなる
+ */
+export function compressToBase64Url(text: string): string {
+  return bytesToBase64Url(lzwCompress(new TextEncoder().encode(text)))
+}
+
+/**
+ * compressToBase64Url で圧縮した文字列を元に戻す
+ * 不正な入力・元に戻したUTF-8が maxBytes を超える場合は例外を投げる
+ * （短い入力から大きなデータに展開できるので、外部からの入力には上限を指定する）
+ */
+export function decompressFromBase64Url(
+  encoded: string,
+  maxBytes = Infinity
+): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(
+    lzwDecompress(base64UrlToBytes(encoded), maxBytes)
+  )
+}
@@ -0,0 +1,69 @@
+/**
+ * フィルターを適用したページへのリンク生成
+ *
+ * useFilters / useSearchForm と同じパーサー・URLキー（エイリアス・名前空間）を使うため、
+ * 生成したURLを開くと指定したフィルター状態になる。
+ * クライアントコンポーネント・サーバーコンポーネントのどちらからも使える
+ */
+
+import { createSerializer } from 'nuqs/server'
+import type { ZodObject, ZodRawShape, z } from 'zod'
+import { toQueryState, type FilterSchema, type InferState } from './filter-schema'
+import { createFilterUrlFormat, type FilterUrlOptions } from './compact-url'
+import {
+  createParsersFromZodSchema,
+  createUrlKeysFromZodSchema,
+  toZodUrlState,
+  type ZodUrlKeyOptions,
+} from './zod-parsers'
+
+/**
+ * FilterSchema からリンク生成関数を作る
+ * 指定しなかった項目と、デフォルト値と同じ項目はURLに含まれない
+ * useFilters と同じ compact を指定すると、長いURLは1つのパラメータにまとめる
+ *
+ * @example
+ * const reportLink = createFilterLink(reportFilterSchema)
+ *
+ * reportLink('/reports', { statuses: ['PENDING'], page: 2 })
+ * // => '/reports?statuses=PENDING&page=2'
+ *
+ * <Link href={reportLink('/reports', { dateType: 'UPDATED_DATE' })}>更新日で見る</Link>
+ */
+export function createFilterLink<S extends FilterSchema>(
+  schema: S,
+  options: FilterUrlOptions = {}
+) {
+  const { parsers, urlKeys, pack } = createFilterUrlFormat(schema, options)
+  const serialize = createSerializer(parsers, { urlKeys })
+
+  return (pathname: string, values: Partial<InferState<S>> = {}) =>
+    serialize(pathname, pack({}, toQueryState(schema, values)))
+}
+
+/**
+ * Zodスキーマからリンク生成関数を作る（useSearchForm のページ用）
+ * 検索ボタンを押したときと同じく、空文字列の項目とデフォルト値と同じ項目はURLに含まれない
+ *
+ * @example
+ * const reportFormLink = createSearchFormLink(reportFormSchema, {
+ *   defaultValues: getDefaultValues(),
+ * })
+ * reportFormLink('/report', { ...getDefaultValues(), devices: ['MOBILE'] })
+ * // => '/report?devices=MOBILE'
+ */
+export function createSearchFormLink<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  {
+    defaultValues,
+    ...urlKeyOptions
+  }: { defaultValues: z.infer<ZodObject<T>> } & ZodUrlKeyOptions
+) {
+  const serialize = createSerializer(
+    createParsersFromZodSchema(schema, defaultValues),
+    { urlKeys: createUrlKeysFromZodSchema(schema, urlKeyOptions) }
+  )
+
+  return (pathname: string, values: z.infer<ZodObject<T>>) =>
+    serialize(pathname, toZodUrlState(schema, values))
+}
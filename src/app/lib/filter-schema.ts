@@ -0,0 +1,482 @@
+/**
+ * FilterSchema → nuqsパーサーの変換
+ *
+ * useFilters から使う。サーバーコンポーネントやリンク生成でも同じスキーマを
+ * 使えるよう、クライアント専用のモジュールから分離している
+ */
+
+import {
+  debounce,
+  defaultRateLimit,
+  parseAsString,
+  parseAsStringLiteral,
+  parseAsNumberLiteral,
+  parseAsInteger,
+  parseAsBoolean,
+  parseAsFloat,
+  type SingleParserBuilder,
+} from 'nuqs/server'
+import {
+  parseAsDate,
+  parseAsCompactDateRange,
+  parseAsBoundedNumber,
+  parseAsMultiSelect,
+  parseAsJsonValue,
+  type DateRange,
+  type JsonValidator,
+  type NumberConstraints,
+} from './parsers'
+import { formatSort, parseAsSort, type SortItem } from './sort'
+import {
+  applyDateRangeRules,
+  toErrorRules,
+  type DateRangeRules,
+} from './date-rules'
+import { CORRECTED_VALUE_MESSAGE } from './url-validation'
+import { withNamespace } from './url-keys'
+import type { ApiField, ApiParamMapping } from './api-params'
+
+// パーサータイプの定義
+// default を指定すると、URLに値がない場合にその値を返す（デフォルトと同じ値はURLから削除）
+type ParserTypeDefinition =
+  | { type: 'string'; default?: string }
+  | { type: 'integer'; default?: number }
+  // 小数（min / max / step で範囲と刻みを制限できる）
+  | ({ type: 'float'; default?: number } & NumberConstraints)
+  // 範囲付きの数値（input[type=number] と同様に step のデフォルトは 1）
+  | ({ type: 'number'; default?: number } & NumberConstraints)
+  | { type: 'boolean'; default?: boolean }
+  | { type: 'stringLiteral'; options: readonly string[]; default?: string }
+  // 決められた数値のみ（表示件数 20 / 50 / 100 など）
+  | { type: 'numberLiteral'; options: readonly number[]; default?: number }
+  | { type: 'stringArray'; default?: readonly string[] }
+  | {
+      type: 'stringLiteralArray'
+      options: readonly string[]
+      default?: readonly string[]
+    }
+  | { type: 'date'; default?: Date }
+  // compact: true で from/to を1つのパラメータ（2024-01-01~2024-01-31）にまとめる
+  // rules: 順序・最大期間・未来日のルール（違反したURLはエラーか補正かを選べる）
+  | {
+      type: 'dateRange'
+      compact?: boolean
+      default?: DateRange
+      rules?: DateRangeRules
+    }
+  // ネストした値（Zodスキーマか型ガードで検証し、1つのパラメータにエンコード）
+  | { type: 'json'; validator: JsonValidator<unknown>; default?: unknown }
+  // 複数列の並び替え（sort=-createdDate,status。options: 並び替えできる列）
+  | { type: 'sort'; options: readonly string[]; default?: readonly SortItem[] }
+
+// 全タイプ共通のオプション
+type FieldOptions = {
+  // URL上の短いキー名（省略時はスキーマのキー名をそのまま使う）
+  urlKey?: string
+  // URLへの書き込みを遅らせる時間（ms）。テキスト入力など連続して変わる項目に指定する
+  debounceMs?: number
+  // API呼び出し用パラメータの設定（名前・変換・省略条件。toApiParams で使う）
+  api?: ApiParamMapping
+} & NavigationOptions
+
+// URL更新時のブラウザ履歴・スクロールの扱い
+type NavigationOptions = {
+  // push: 履歴に残す（戻る/進むで辿れる） / replace: 現在の履歴を置き換える（デフォルト）
+  history?: 'push' | 'replace'
+  // true で更新後にページ先頭へスクロール（デフォルト false）
+  scroll?: boolean
+}
+
+// setFilter / setFilters のオプション（スキーマのフィールドのオプションより優先）
+export type SetFilterOptions = {
+  // URLへの書き込みを遅らせる時間（ms）。0 で即時反映
+  debounceMs?: number
+} & NavigationOptions
+
+type ParserType = ParserTypeDefinition & FieldOptions
+
+// スキーマ定義の型
+export type FilterSchema = Record<string, ParserType>
+
+// =============================================================================
+// 日付範囲
+// =============================================================================
+
+// 2パラメータ形式の日付範囲で使うURLキー（date → dateFrom / dateTo）
+const dateRangeKeys = (key: string) => ({
+  from: `${key}From`,
+  to: `${key}To`,
+})
+
+const isSplitDateRange = (config: ParserType) =>
+  config.type === 'dateRange' && !config.compact
+
+type DateRangeConfig = Extract<ParserType, { type: 'dateRange' }>
+
+const isSameDate = (a: Date | null | undefined, b: Date | null | undefined) =>
+  (a?.getTime() ?? null) === (b?.getTime() ?? null)
+
+// 日付範囲にルールを適用
+// error のルールに違反した範囲は無効とし、デフォルト値（なければ null）にする
+function resolveDateRange(config: DateRangeConfig, range: DateRange | null) {
+  if (!range || !config.rules) {
+    return { range, invalid: false, corrected: false, message: null }
+  }
+  const result = applyDateRangeRules(range, config.rules)
+  if (result.errors.length > 0) {
+    return {
+      range: config.default ?? null,
+      invalid: true,
+      corrected: false,
+      message: result.errors[0]!.message,
+    }
+  }
+  return {
+    range: result.range,
+    invalid: false,
+    corrected: result.corrected,
+    message: result.corrected ? CORRECTED_VALUE_MESSAGE : null,
+  }
+}
+
+// nuqsの状態から日付範囲を取り出す（ルールの適用前）
+function getDateRange(
+  key: string,
+  config: DateRangeConfig,
+  state: Record<string, unknown>
+): DateRange | null {
+  if (!isSplitDateRange(config)) return (state[key] as DateRange | null) ?? null
+  const keys = dateRangeKeys(key)
+  const from = (state[keys.from] as Date | null) ?? null
+  const to = (state[keys.to] as Date | null) ?? null
+  return from || to ? { from, to } : null
+}
+
+// 日付範囲のルールに違反したURLの値（nuqsの状態のキーごと）
+export type DateRangeRuleViolation = {
+  key: string
+  message: string
+  // URLに書き込む値（無効な場合は null、補正した場合は補正後の値）
+  correction: unknown
+}
+
+/**
+ * 日付範囲のルール（rules）に違反する値を検出
+ * 2パラメータ形式では補正で変わったキーのみ、無効な場合は両方のキーを返す
+ *
+ * @param schema - フィルタースキーマ
+ * @param state - nuqsの状態（デフォルト値を反映済み）
+ */
+export function findDateRangeRuleViolations(
+  schema: FilterSchema,
+  state: Record<string, unknown>
+): DateRangeRuleViolation[] {
+  return Object.entries(schema).flatMap(
+    ([key, config]): DateRangeRuleViolation[] => {
+      if (config.type !== 'dateRange' || !config.rules) return []
+      const range = getDateRange(key, config, state)
+      const { range: resolved, invalid, message } = resolveDateRange(
+        config,
+        range
+      )
+      if (!message) return []
+
+      if (!isSplitDateRange(config)) {
+        return [{ key, message, correction: invalid ? null : resolved }]
+      }
+      const keys = dateRangeKeys(key)
+      return (['from', 'to'] as const)
+        .filter(
+          (field) => invalid || !isSameDate(range?.[field], resolved?.[field])
+        )
+        .map((field) => ({
+          key: keys[field],
+          message,
+          correction: invalid ? null : (resolved?.[field] ?? null),
+        }))
+    }
+  )
+}
+
+/**
+ * 日付範囲のルールをすべて error にしたスキーマ
+ * 厳密な検証（APIなど）で、補正が必要な値もルールのメッセージでエラーにする
+ */
+export function toStrictFilterSchema<S extends FilterSchema>(schema: S): S {
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, config]) => [
+      key,
+      config.type === 'dateRange' && config.rules
+        ? { ...config, rules: toErrorRules(config.rules) }
+        : config,
+    ])
+  ) as S
+}
+
+// =============================================================================
+// スキーマ → nuqsパーサー
+// =============================================================================
+
+const hasConstraints = ({ min, max, step }: NumberConstraints) =>
+  min !== undefined || max !== undefined || step !== undefined
+
+// スキーマからパーサーを生成（型をanyで回避）
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function createBaseParser(config: ParserType): any {
+  switch (config.type) {
+    case 'string':
+      return parseAsString
+    case 'integer':
+      return parseAsInteger
+    case 'float':
+      return hasConstraints(config) ? parseAsBoundedNumber(config) : parseAsFloat
+    case 'number':
+      return parseAsBoundedNumber({ step: 1, ...config })
+    case 'boolean':
+      return parseAsBoolean
+    case 'stringLiteral':
+      return parseAsStringLiteral(config.options as readonly string[])
+    case 'stringArray':
+      return parseAsMultiSelect(parseAsString)
+    case 'numberLiteral':
+      return parseAsNumberLiteral(config.options as readonly number[])
+    case 'stringLiteralArray':
+      return parseAsMultiSelect(
+        parseAsStringLiteral(config.options as readonly string[])
+      )
+    case 'date':
+      return parseAsDate
+    case 'dateRange':
+      return parseAsCompactDateRange
+    case 'json':
+      return parseAsJsonValue(config.validator)
+    case 'sort':
+      return parseAsSort(config.options)
+    default:
+      return parseAsString
+  }
+}
+
+const isArrayType = (config: ParserType) =>
+  config.type === 'stringArray' ||
+  config.type === 'stringLiteralArray' ||
+  config.type === 'sort'
+
+// デフォルト値を反映したパーサーを生成（配列はデフォルト未指定なら空配列）
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function createParser(config: ParserType): any {
+  const parser = createBaseParser(config)
+  const defaultValue = config.default ?? (isArrayType(config) ? [] : undefined)
+  return defaultValue === undefined ? parser : parser.withDefault(defaultValue)
+}
+
+// デバウンス時間をnuqsのURL更新レート制限に変換（0 以下は即時反映）
+const toRateLimit = (debounceMs: number) =>
+  debounceMs > 0 ? debounce(debounceMs) : defaultRateLimit
+
+// setFilter / setFilters やフィールドのオプションをnuqsのオプションに変換
+// 指定されていない項目は含めない（nuqsの優先順位: 呼び出し > パーサー > フック）
+export function toQueryOptions({ debounceMs, history, scroll }: SetFilterOptions) {
+  return {
+    ...(debounceMs !== undefined && { limitUrlUpdates: toRateLimit(debounceMs) }),
+    ...(history !== undefined && { history }),
+    ...(scroll !== undefined && { scroll }),
+  }
+}
+
+// URLの無効な値を自動で補正するときのオプション
+// 呼び出しで指定しないとフィールドの push / scroll / デバウンスが使われ、
+// 戻るボタンで無効なURLに戻るたびに補正が履歴に追加されて戻れなくなる
+export const URL_CORRECTION_OPTIONS = {
+  history: 'replace',
+  scroll: false,
+  debounceMs: 0,
+} as const satisfies SetFilterOptions
+
+// 複数のフィールドを1回の更新として書き込むときのオプション（compact 形式など）
+// 呼び出しで指定されていない項目は、変更したフィールドの設定から決める
+// （最も長いデバウンス・いずれかが push なら push・いずれかが scroll ならスクロール）
+export function mergeFieldOptions(
+  schema: FilterSchema,
+  keys: string[],
+  options: SetFilterOptions
+): SetFilterOptions {
+  const configs = keys.flatMap((key) => (schema[key] ? [schema[key]!] : []))
+  return {
+    debounceMs:
+      options.debounceMs ??
+      Math.max(0, ...configs.map((config) => config.debounceMs ?? 0)),
+    history:
+      options.history ??
+      (configs.some((config) => config.history === 'push') ? 'push' : 'replace'),
+    scroll: options.scroll ?? configs.some((config) => config.scroll),
+  }
+}
+
+// フィールドのオプション（デバウンス・履歴・スクロール）をパーサーに反映
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function withFieldOptions(parser: any, config: ParserType): any {
+  const options = toQueryOptions(config)
+  return Object.keys(options).length > 0 ? parser.withOptions(options) : parser
+}
+
+// スキーマからnuqsのパーサーオブジェクトを生成
+// 2パラメータ形式の日付範囲は from / to の2つのキーに展開する
+export function createParsersFromFilterSchema(
+  schema: FilterSchema
+): Record<string, SingleParserBuilder<unknown>> {
+  return Object.fromEntries(
+    Object.entries(schema).flatMap(([key, config]) => {
+      if (isSplitDateRange(config)) {
+        const keys = dateRangeKeys(key)
+        const range = config.default as DateRange | undefined
+        return [
+          [
+            keys.from,
+            withFieldOptions(
+              range?.from ? parseAsDate.withDefault(range.from) : parseAsDate,
+              config
+            ),
+          ],
+          [
+            keys.to,
+            withFieldOptions(
+              range?.to ? parseAsDate.withDefault(range.to) : parseAsDate,
+              config
+            ),
+          ],
+        ]
+      }
+      return [[key, withFieldOptions(createParser(config), config)]]
+    })
+  )
+}
+
+// スキーマからnuqsのurlKeysオプションを生成（エイリアス・名前空間を反映）
+// 2パラメータ形式の日付範囲はエイリアスにも From / To を付ける
+export function createUrlKeysFromFilterSchema(
+  schema: FilterSchema,
+  namespace?: string
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(schema).flatMap(([key, config]) => {
+      const urlKey = config.urlKey ?? key
+      if (isSplitDateRange(config)) {
+        const keys = dateRangeKeys(key)
+        const urlKeys = dateRangeKeys(urlKey)
+        return [
+          [keys.from, withNamespace(urlKeys.from, namespace)],
+          [keys.to, withNamespace(urlKeys.to, namespace)],
+        ]
+      }
+      return [[key, withNamespace(urlKey, namespace)]]
+    })
+  )
+}
+
+// nuqsの状態をスキーマの値に変換
+// 日付範囲のルールはここで適用する（URLを補正する前でも補正後の値になる）
+export function fromQueryState(
+  schema: FilterSchema,
+  state: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, config]) => {
+      if (config.type === 'dateRange') {
+        const range = getDateRange(key, config, state)
+        return [key, resolveDateRange(config, range).range]
+      }
+      return [key, state[key]]
+    })
+  )
+}
+
+// スキーマの値をnuqsの状態に変換（指定されたキーのみ）
+export function toQueryState(
+  schema: FilterSchema,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(values).flatMap(([key, value]) => {
+      const config = schema[key]
+      if (config && isSplitDateRange(config)) {
+        const keys = dateRangeKeys(key)
+        const range = value as DateRange | null
+        return [
+          [keys.from, range?.from ?? null],
+          [keys.to, range?.to ?? null],
+        ]
+      }
+      return [[key, value]]
+    })
+  )
+}
+
+// スキーマの値をAPI用のフィールドに展開
+// 日付範囲は1パラメータ形式でもAPIには From / To の2つに分けて渡す
+export function getApiFields(
+  schema: FilterSchema,
+  state: Record<string, unknown>
+): ApiField[] {
+  return Object.entries(schema).flatMap(([key, config]): ApiField[] => {
+    const value = state[key]
+    if (config.type === 'dateRange') {
+      const range = value as DateRange | null
+      const keys = dateRangeKeys(key)
+      const names = config.api?.name ? dateRangeKeys(config.api.name) : keys
+      return [
+        {
+          key: keys.from,
+          value: range?.from ?? null,
+          mapping: { ...config.api, name: names.from },
+        },
+        {
+          key: keys.to,
+          value: range?.to ?? null,
+          mapping: { ...config.api, name: names.to },
+        },
+      ]
+    }
+    // 並び替えはURLと同じ形式（-createdDate,status）で渡す
+    if (config.type === 'sort') {
+      return [{ key, value, mapping: { transform: formatSort, ...config.api } }]
+    }
+    const options = 'options' in config ? config.options : undefined
+    return [{ key, value, mapping: config.api, options }]
+  })
+}
+
+// スキーマから値の型を推論（default があれば null にならない）
+export type InferValue<T extends ParserType> = T extends { default: unknown }
+  ? NonNullable<InferBaseValue<T>>
+  : InferBaseValue<T>
+
+type InferBaseValue<T extends ParserType> = T extends { type: 'string' }
+  ? string | null
+  : T extends { type: 'integer' | 'float' | 'number' }
+    ? number | null
+    : T extends { type: 'boolean' }
+      ? boolean | null
+      : T extends {
+            type: 'stringLiteral' | 'numberLiteral'
+            options: readonly (infer U)[]
+          }
+        ? U | null
+        : T extends { type: 'stringArray' }
+          ? string[]
+          : T extends { type: 'stringLiteralArray'; options: readonly (infer U)[] }
+            ? U[]
+            : T extends { type: 'date' }
+              ? Date | null
+              : T extends { type: 'dateRange' }
+                ? DateRange | null
+                : T extends { type: 'json'; validator: JsonValidator<infer U> }
+                  ? U | null
+                  : T extends { type: 'sort'; options: readonly (infer U)[] }
+                    ? SortItem<U & string>[]
+                    : never
+
+// スキーマから全体の状態型を推論
+export type InferState<S extends FilterSchema> = {
+  [K in keyof S]: InferValue<S[K]>
+}
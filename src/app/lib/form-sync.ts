@@ -0,0 +1,80 @@
+/**
+ * フォームとURLの同期状態
+ *
+ * 検索ボタンで適用するフォーム（useSearchForm / useUrlForm）では、
+ * 入力中の値とURL（検索結果が反映している条件）がずれる。その差分を求める
+ */
+
+// 適用されていない変更（フォームの値とURLの値）
+export type UnappliedChange = {
+  formValue: unknown
+  urlValue: unknown
+}
+
+// フィールドのキー（"date.from" のような展開後のキー）ごとの差分
+export type UnappliedChanges = Record<string, UnappliedChange>
+
+type Equals = (a: unknown, b: unknown) => boolean
+
+// 空文字列・未入力はURLに書き込まれない（null と同じ）
+const normalize = (value: unknown) =>
+  value === '' || value === undefined ? null : value
+
+const jsonEquals: Equals = (a, b) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * フォームの値とURLの値の差分を求める
+ * 比較はフィールドのパーサーの eq を使う（複数選択は順序を無視するなど）
+ *
+ * @param formValues - フォームの値（フラット）
+ * @param urlValues - URLの値（フラット。URLにない項目はデフォルト値）
+ * @param getEquals - フィールドの比較関数（パーサーの eq。なければJSONで比較）
+ */
+export function findUnappliedChanges(
+  formValues: Record<string, unknown>,
+  urlValues: Record<string, unknown>,
+  getEquals: (key: string) => Equals | undefined
+): UnappliedChanges {
+  const changes: UnappliedChanges = {}
+
+  for (const key of Object.keys(formValues)) {
+    const formValue = normalize(formValues[key])
+    const urlValue = normalize(urlValues[key])
+    if (formValue === null && urlValue === null) continue
+
+    const equals = getEquals(key) ?? jsonEquals
+    const isEqual =
+      formValue !== null && urlValue !== null && equals(formValue, urlValue)
+    if (!isEqual) {
+      changes[key] = { formValue: formValues[key], urlValue: urlValues[key] }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * URLが外部から変わったとき（戻る/進む・同じページへのリンク・プリセットの適用など）に
+ * フォームへ反映する値を求める
+ * 入力中の項目（変わる前のURLの値から変更している項目）は上書きしないので含めない
+ *
+ * @param formValues - フォームの値（フラット）
+ * @param previousUrlValues - 変わる前のURLの値
+ * @param urlValues - 新しいURLの値
+ * @param getEquals - フィールドの比較関数
+ */
+export function findUrlUpdates(
+  formValues: Record<string, unknown>,
+  previousUrlValues: Record<string, unknown>,
+  urlValues: Record<string, unknown>,
+  getEquals: (key: string) => Equals | undefined
+): Record<string, unknown> {
+  const editing = findUnappliedChanges(formValues, previousUrlValues, getEquals)
+  const changed = findUnappliedChanges(formValues, urlValues, getEquals)
+
+  return Object.fromEntries(
+    Object.keys(changed)
+      .filter((key) => !(key in editing))
+      .map((key) => [key, urlValues[key]])
+  )
+}
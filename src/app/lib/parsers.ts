@@ -0,0 +1,210 @@
+/**
+ * カスタムnuqsパーサー
+ *
+ * useFilters（FilterSchema）と useSearchForm（Zodスキーマ）の両方から使う
+ */
+
+import { createParser, parseAsArrayOf, type SingleParser } from 'nuqs/server'
+import type { ZodType } from 'zod'
+import { decodeBase64Url, encodeBase64Url } from './encoding'
+
+// =============================================================================
+// 日付
+// =============================================================================
+
+// 日付範囲の値（片側だけの指定も可）
+export type DateRange = { from: Date | null; to: Date | null }
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DATE_RANGE_SEPARATOR = '~'
+
+/**
+ * YYYY-MM-DD 形式の文字列をDate（UTCの0時）に変換
+ * 形式が不正な場合や存在しない日付（2024-02-30 など）は null を返す
+ */
+export function parseIsoDate(value: string): Date | null {
+  if (!ISO_DATE_PATTERN.test(value)) return null
+  const date = new Date(`${value}T00:00:00Z`)
+  if (Number.isNaN(date.getTime())) return null
+  // 繰り上がった日付（2024-02-30 → 2024-03-01）は不正とみなす
+  return formatIsoDate(date) === value ? date : null
+}
+
+/**
+ * DateをYYYY-MM-DD 形式の文字列に変換（UTC基準）
+ */
+export function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+const isSameDate = (a: Date | null, b: Date | null) =>
+  a === b || (a !== null && b !== null && a.getTime() === b.getTime())
+
+export const parseAsDate = createParser<Date>({
+  parse: parseIsoDate,
+  serialize: formatIsoDate,
+  eq: isSameDate,
+})
+
+// 1パラメータ形式の日付範囲: "2024-01-01~2024-01-31"（片側は空でも可）
+// 片側でも不正な日付がある場合は、値全体を無効にする
+export const parseAsCompactDateRange = createParser<DateRange>({
+  parse: (value) => {
+    const [fromPart, toPart, ...rest] = value.split(DATE_RANGE_SEPARATOR)
+    if (fromPart === undefined || toPart === undefined || rest.length > 0) {
+      return null
+    }
+    const from = fromPart ? parseIsoDate(fromPart) : null
+    const to = toPart ? parseIsoDate(toPart) : null
+    if ((fromPart && !from) || (toPart && !to) || (!from && !to)) return null
+    return { from, to }
+  },
+  serialize: ({ from, to }) =>
+    [from ? formatIsoDate(from) : '', to ? formatIsoDate(to) : ''].join(
+      DATE_RANGE_SEPARATOR
+    ),
+  eq: (a, b) => isSameDate(a.from, b.from) && isSameDate(a.to, b.to),
+})
+
+// =============================================================================
+// 数値（範囲・刻み付き）
+// =============================================================================
+
+export type NumberConstraints = {
+  min?: number
+  max?: number
+  step?: number
+  /**
+   * URLの値が範囲外・刻み外だった場合の扱い
+   * - reject: 値を無視する（デフォルト）
+   * - clamp: 範囲内・刻みに丸める
+   */
+  outOfRange?: 'clamp' | 'reject'
+}
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+
+// 小数点以下の桁数（刻みに丸めた後の浮動小数点誤差を消すために使う）
+const countDecimals = (value: number) =>
+  String(value).split('.')[1]?.length ?? 0
+
+/**
+ * 数値を制約に合わせて正規化
+ * reject の場合、制約を満たさない値は null を返す
+ */
+export function normalizeNumber(
+  value: number,
+  { min, max, step, outOfRange = 'reject' }: NumberConstraints
+): number | null {
+  if (!Number.isFinite(value)) return null
+  let result = value
+
+  if (step) {
+    const base = min ?? 0
+    const decimals = Math.max(countDecimals(step), countDecimals(base))
+    const snapped = Number(
+      (base + Math.round((result - base) / step) * step).toFixed(decimals)
+    )
+    if (snapped !== result && outOfRange === 'reject') return null
+    result = snapped
+  }
+
+  if (min !== undefined && result < min) {
+    if (outOfRange === 'reject') return null
+    result = min
+  }
+  if (max !== undefined && result > max) {
+    if (outOfRange === 'reject') return null
+    result = max
+  }
+  return result
+}
+
+/**
+ * 範囲・刻み付きの数値パーサー
+ * 刻みを指定しない場合は小数をそのまま扱う
+ */
+export const parseAsBoundedNumber = (constraints: NumberConstraints) =>
+  createParser<number>({
+    parse: (value) =>
+      NUMBER_PATTERN.test(value)
+        ? normalizeNumber(Number(value), constraints)
+        : null,
+    serialize: (value) => String(value),
+  })
+
+// =============================================================================
+// 真偽値（リテラル）
+// =============================================================================
+
+/**
+ * 決められた真偽値のみのパーサー（z.literal(true) など）
+ * parseAsStringLiteral / parseAsNumberLiteral と同様に、一覧にない値は無視する
+ */
+export const parseAsBooleanLiteral = (values: readonly boolean[]) =>
+  createParser<boolean>({
+    parse: (value) => {
+      const parsed = value === 'true' ? true : value === 'false' ? false : null
+      return parsed !== null && values.includes(parsed) ? parsed : null
+    },
+    serialize: (value) => String(value),
+  })
+
+// =============================================================================
+// 複数選択
+// =============================================================================
+
+/**
+ * 複数選択用の配列パーサー
+ * 選択順が違っても同じ要素を含んでいればデフォルト値と等しいとみなす
+ */
+export const parseAsMultiSelect = <T>(itemParser: SingleParser<T>) => {
+  const arrayParser = parseAsArrayOf(itemParser)
+  return createParser<T[]>({
+    parse: arrayParser.parse,
+    serialize: arrayParser.serialize,
+    eq: (a, b) =>
+      a.length === b.length && a.every((item) => b.includes(item)),
+  })
+}
+
+// =============================================================================
+// JSON（ネストした値）
+// =============================================================================
+
+/**
+ * JSONの値を検証する関数
+ * Zodスキーマ、または型ガード関数を指定できる
+ */
+export type JsonValidator<T> = ZodType<T> | ((value: unknown) => value is T)
+
+/**
+ * 値を検証し、不正な場合は null を返す
+ */
+export function validateJson<T>(
+  validator: JsonValidator<T>,
+  value: unknown
+): T | null {
+  if (typeof validator === 'function') {
+    return validator(value) ? value : null
+  }
+  const result = validator.safeParse(value)
+  return result.success ? result.data : null
+}
+
+/**
+ * ネストした値をJSON + base64url の1パラメータで扱うパーサー
+ * デコードや検証に失敗した値は無視する（デフォルト値が使われる）
+ */
+export const parseAsJsonValue = <T>(validator: JsonValidator<T>) =>
+  createParser<T>({
+    parse: (value) => {
+      try {
+        return validateJson(validator, JSON.parse(decodeBase64Url(value)))
+      } catch {
+        return null
+      }
+    },
+    serialize: (value) => encodeBase64Url(JSON.stringify(value)),
+    eq: (a, b) => JSON.stringify(a) === JSON.stringify(b),
+  })
@@ -0,0 +1,83 @@
+/**
+ * 保存した検索条件（プリセット）の永続化
+ *
+ * 条件はページのURLと同じクエリ文字列で保存する。読み込み時は共有リンクと同じく
+ * 現在のスキーマで検証するため、スキーマを変更する前に保存した条件でも
+ * 無効な項目が無視されるだけでページは壊れない
+ */
+
+// 保存先（localStorage / sessionStorage はそのまま渡せる）
+export type PresetStorage = {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+}
+
+// 保存される形式
+export type StoredPreset = {
+  id: string
+  name: string
+  // 条件（ページのURLと同じクエリ文字列。名前空間は付けない）
+  query: string
+  // 保存日時（ISO文字列）
+  savedAt: string
+}
+
+/**
+ * デフォルトの保存先（localStorage）
+ * サーバー側・プライベートブラウズなどで使えない場合は null
+ */
+export function getDefaultPresetStorage(): PresetStorage | null {
+  try {
+    return typeof window === 'undefined' ? null : window.localStorage
+  } catch {
+    return null
+  }
+}
+
+const isStoredPreset = (value: unknown): value is StoredPreset => {
+  if (!value || typeof value !== 'object') return false
+  const preset = value as Record<string, unknown>
+  return (
+    typeof preset.id === 'string' &&
+    typeof preset.name === 'string' &&
+    typeof preset.query === 'string' &&
+    typeof preset.savedAt === 'string'
+  )
+}
+
+/**
+ * 保存したプリセットを読み込む
+ * 保存内容が壊れている場合は空（形式が合わないプリセットは除く）
+ */
+export function readPresets(
+  storage: PresetStorage,
+  storageKey: string
+): StoredPreset[] {
+  try {
+    const stored: unknown = JSON.parse(storage.getItem(storageKey) ?? '[]')
+    return Array.isArray(stored) ? stored.filter(isStoredPreset) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * プリセットを保存する
+ * 容量超過などで保存できない場合は false
+ */
+export function writePresets(
+  storage: PresetStorage,
+  storageKey: string,
+  presets: StoredPreset[]
+): boolean {
+  try {
+    storage.setItem(storageKey, JSON.stringify(presets))
+    return true
+  } catch {
+    return false
+  }
+}
+
+// プリセットのIDを生成（crypto.randomUUID は http では使えないため自前で生成）
+export const createPresetId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
@@ -0,0 +1,293 @@
+/**
+ * サーバー側でのフィルター状態の読み取り
+ *
+ * useFilters / useSearchForm と同じスキーマから、ページの searchParams や
+ * Route Handler のリクエストをクライアントと同じ型・同じ値に変換する
+ *
+ * - loader: 任意の入力（Request / URL / URLSearchParams / searchParams）をその場でパース
+ * - cache: サーバーコンポーネント用。パース結果をリクエスト単位でキャッシュし、
+ *   ネストしたサーバーコンポーネントからも読める（nuqs の createSearchParamsCache）
+ * - validator: 無効な値をデフォルト値にせずエラーとして返す（APIで 400 を返す場合など）
+ */
+
+import {
+  createLoader,
+  createSearchParamsCache,
+  type LoaderInput,
+  type SearchParams,
+} from 'nuqs/server'
+import type { ZodObject, ZodRawShape, z } from 'zod'
+import {
+  fromQueryState,
+  toStrictFilterSchema,
+  type FilterSchema,
+  type InferState,
+} from './filter-schema'
+import { createFilterUrlFormat, type FilterUrlOptions } from './compact-url'
+import {
+  createParsersFromZodSchema,
+  createUrlKeysFromZodSchema,
+  findZodFieldErrors,
+  flattenZodValues,
+  resolveZodUrlValues,
+  unflattenZodValues,
+  type ZodUrlKeyOptions,
+} from './zod-parsers'
+import {
+  CORRECTED_VALUE_MESSAGE,
+  INVALID_PARAM_MESSAGE,
+  INVALID_VALUE_MESSAGE,
+  checkUrlParams,
+  type UrlCheckResult,
+  type UrlError,
+} from './url-validation'
+
+// 厳密な検証の結果
+export type ParamsValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: UrlError[] }
+
+// パース・補正が必要な値をエラーとして検出
+// クライアント向けの「無視しました」「補正しました」だけを置き換え、ルールのメッセージは残す
+const toInvalidParams = ({ errors }: UrlCheckResult): UrlError[] =>
+  errors.map((error) =>
+    error.message === INVALID_VALUE_MESSAGE ||
+    error.message === CORRECTED_VALUE_MESSAGE
+      ? { ...error, message: INVALID_PARAM_MESSAGE }
+      : error
+  )
+
+// =============================================================================
+// FilterSchema
+// =============================================================================
+
+// useFilters と同じ名前空間・URL形式（compact）を指定する
+type FilterSchemaOptions = FilterUrlOptions
+
+/**
+ * FilterSchema からパース関数を生成（Route Handler など）
+ * 無効な値はクライアントと同様に無視され、デフォルト値になる
+ *
+ * @example
+ * const loadReportFilters = createFilterLoader(reportFilterSchema)
+ *
+ * export function GET(request: Request) {
+ *   const filters = loadReportFilters(request)
+ * }
+ */
+export function createFilterLoader<S extends FilterSchema>(
+  schema: S,
+  options: FilterSchemaOptions = {}
+) {
+  const { parsers, urlKeys, unpack } = createFilterUrlFormat(schema, options)
+  const load = createLoader(parsers, { urlKeys })
+  return (input: LoaderInput) =>
+    fromQueryState(schema, unpack(load(input))) as InferState<S>
+}
+
+/**
+ * FilterSchema からリクエスト単位のキャッシュを生成（サーバーコンポーネント）
+ *
+ * @example
+ * // search-params.ts（モジュールのトップレベルで生成する）
+ * export const reportFilterCache = createFilterCache(reportFilterSchema)
+ *
+ * // page.tsx
+ * export default function Page({ searchParams }: { searchParams: SearchParams }) {
+ *   const filters = reportFilterCache.parse(searchParams)
+ * }
+ *
+ * // ネストしたサーバーコンポーネント（parse 済みの値を読む）
+ * const page = reportFilterCache.get('page')
+ */
+export function createFilterCache<S extends FilterSchema>(
+  schema: S,
+  options: FilterSchemaOptions = {}
+) {
+  const { parsers, urlKeys, unpack } = createFilterUrlFormat(schema, options)
+  const cache = createSearchParamsCache(parsers, { urlKeys })
+
+  const toState = (state: Record<string, unknown>) =>
+    fromQueryState(schema, unpack(state)) as InferState<S>
+
+  return {
+    // ページの searchParams をパースしてキャッシュする（リクエストごとに1回）
+    parse: (searchParams: SearchParams) => toState(cache.parse(searchParams)),
+    // パース済みの全フィルター
+    all: () => toState(cache.all()),
+    // パース済みの単一フィルター
+    get: <K extends keyof S>(key: K) => toState(cache.all())[key],
+  }
+}
+
+/**
+ * FilterSchema から厳密な検証関数を生成（Route Handler など）
+ * クライアントなら無視・補正される値（?page=abc など）をエラーとして返す
+ *
+ * @example
+ * const validateReportFilters = createFilterValidator(reportFilterSchema)
+ *
+ * export function GET(request: NextRequest) {
+ *   const result = validateReportFilters(request.nextUrl.searchParams)
+ *   if (!result.success) {
+ *     return Response.json({ errors: result.errors }, { status: 400 })
+ *   }
+ * }
+ */
+export function createFilterValidator<S extends FilterSchema>(
+  schema: S,
+  options: FilterSchemaOptions = {}
+) {
+  // 日付範囲の correct のルールも補正せず、ルールのメッセージでエラーにする
+  const { check } = createFilterUrlFormat(toStrictFilterSchema(schema), options)
+  const load = createFilterLoader(schema, options)
+
+  return (
+    searchParams: URLSearchParams
+  ): ParamsValidationResult<InferState<S>> => {
+    const errors = toInvalidParams(check(searchParams))
+    return errors.length > 0
+      ? { success: false, errors }
+      : { success: true, data: load(searchParams) }
+  }
+}
+
+// =============================================================================
+// Zodスキーマ
+// =============================================================================
+
+// useSearchForm と同じデフォルト値・URLキーの設定を指定する
+type SearchFormOptions<T extends ZodRawShape> = {
+  defaultValues: z.infer<ZodObject<T>>
+} & ZodUrlKeyOptions
+
+const createSearchFormParsers = <T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  { defaultValues, ...urlKeyOptions }: SearchFormOptions<T>
+) =>
+  [
+    createParsersFromZodSchema(schema, defaultValues),
+    { urlKeys: createUrlKeysFromZodSchema(schema, urlKeyOptions) },
+  ] as const
+
+// nuqsの状態をフォームの値に変換（useSearchForm のフォームの初期値と同じ）
+const toSearchFormValues = <T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  state: Record<string, unknown>,
+  defaultValues: z.infer<ZodObject<T>>
+) =>
+  unflattenZodValues(
+    schema,
+    resolveZodUrlValues(schema, state, defaultValues).values
+  ) as z.infer<ZodObject<T>>
+
+/**
+ * Zodスキーマからパース関数を生成（Route Handler など）
+ * Zodのルールに違反する項目はデフォルト値になる
+ *
+ * @example
+ * const loadReportForm = createSearchFormLoader(reportFormSchema, {
+ *   defaultValues: getDefaultValues(),
+ * })
+ * const values = loadReportForm(request)
+ */
+export function createSearchFormLoader<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  options: SearchFormOptions<T>
+) {
+  const load = createLoader(...createSearchFormParsers(schema, options))
+  return (input: LoaderInput) =>
+    toSearchFormValues(schema, load(input), options.defaultValues)
+}
+
+/**
+ * Zodスキーマからリクエスト単位のキャッシュを生成（サーバーコンポーネント）
+ *
+ * @example
+ * export const reportFormCache = createSearchFormCache(reportFormSchema, {
+ *   defaultValues: getDefaultValues(),
+ * })
+ * const values = reportFormCache.parse(searchParams)
+ */
+export function createSearchFormCache<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  options: SearchFormOptions<T>
+) {
+  const cache = createSearchParamsCache(
+    ...createSearchFormParsers(schema, options)
+  )
+
+  const toValues = (state: Record<string, unknown>) =>
+    toSearchFormValues(schema, state, options.defaultValues)
+
+  return {
+    // ページの searchParams をパースしてキャッシュする（リクエストごとに1回）
+    parse: (searchParams: SearchParams) => toValues(cache.parse(searchParams)),
+    // パース済みのフォームの値
+    all: () => toValues(cache.all()),
+  }
+}
+
+/**
+ * Zodスキーマから厳密な検証関数を生成（Route Handler など）
+ * パースできない値に加えて、URLで指定された値のZodのルール違反もエラーとして返す
+ * 日付範囲のルールで補正が必要な値（withDateRangeRules の correct）もエラーにする
+ */
+export function createSearchFormValidator<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  options: SearchFormOptions<T>
+) {
+  const [parsers, { urlKeys }] = createSearchFormParsers(schema, options)
+  const load = createLoader(parsers, { urlKeys })
+
+  return (
+    searchParams: URLSearchParams
+  ): ParamsValidationResult<z.infer<ZodObject<T>>> => {
+    const errors = toInvalidParams(
+      checkUrlParams(parsers, urlKeys, searchParams)
+    )
+    const state = load(searchParams)
+    const {
+      values,
+      errors: zodErrors,
+      corrections,
+    } = resolveZodUrlValues(schema, state, options.defaultValues)
+    // 補正した項目は、補正前の値でのルールのメッセージを返す
+    // （withDateRangeRules の検証はすべてのルールを error として扱う）
+    const flatDefaultValues = flattenZodValues(schema, options.defaultValues)
+    const uncorrectedValues = Object.fromEntries(
+      Object.entries(state).map(([key, value]) => [
+        key,
+        value ?? flatDefaultValues[key],
+      ])
+    )
+    const uncorrectedErrors = findZodFieldErrors(
+      schema,
+      unflattenZodValues(schema, uncorrectedValues)
+    )
+    const ruleErrors = {
+      ...Object.fromEntries(
+        Object.keys(corrections).map((key) => [
+          key,
+          uncorrectedErrors[key] ?? INVALID_PARAM_MESSAGE,
+        ])
+      ),
+      ...zodErrors,
+    }
+
+    for (const [key, message] of Object.entries(ruleErrors)) {
+      const urlKey = urlKeys[key]!
+      const value = searchParams.get(urlKey)
+      // URLで指定された項目のみ対象（パースできない値は検出済み）
+      if (value === null || errors.some((error) => error.key === key)) continue
+      errors.push({ key, urlKey, value, message })
+    }
+
+    return errors.length > 0
+      ? { success: false, errors }
+      : {
+          success: true,
+          data: unflattenZodValues(schema, values) as z.infer<ZodObject<T>>,
+        }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * 複数列の並び替え
+ *
+ * URLでは "sort=-createdDate,status" のように、並び替える列をカンマ区切りで
+ * 優先順に並べる（先頭の "-" は降順）。FilterSchema の sort タイプと
+ * Zodの sortSchema の両方から使う
+ */
+
+import { createParser } from 'nuqs/server'
+
+export type SortDirection = 'asc' | 'desc'
+
+export type SortItem<K extends string = string> = {
+  key: K
+  direction: SortDirection
+}
+
+const SORT_SEPARATOR = ','
+const DESC_PREFIX = '-'
+
+/**
+ * 並び替えを文字列に変換（[{ key: 'createdDate', direction: 'desc' }] → "-createdDate"）
+ */
+export function formatSort(sort: readonly SortItem[]): string {
+  return sort
+    .map(({ key, direction }) =>
+      direction === 'desc' ? `${DESC_PREFIX}${key}` : key
+    )
+    .join(SORT_SEPARATOR)
+}
+
+/**
+ * 並び替えの文字列をパース
+ * 許可されていない列・同じ列の重複がある場合は null を返す
+ */
+export function parseSort<K extends string>(
+  value: string,
+  keys: readonly K[]
+): SortItem<K>[] | null {
+  if (value === '') return []
+  const items: SortItem<K>[] = []
+
+  for (const part of value.split(SORT_SEPARATOR)) {
+    const direction = part.startsWith(DESC_PREFIX) ? 'desc' : 'asc'
+    const key = (direction === 'desc' ? part.slice(1) : part) as K
+    if (!keys.includes(key) || items.some((item) => item.key === key)) {
+      return null
+    }
+    items.push({ key, direction })
+  }
+  return items
+}
+
+/**
+ * 並び替えのパーサー（keys: 並び替えできる列）
+ */
+export const parseAsSort = <K extends string>(keys: readonly K[]) =>
+  createParser<SortItem<K>[]>({
+    parse: (value) => parseSort(value, keys),
+    serialize: formatSort,
+    eq: (a, b) => formatSort(a) === formatSort(b),
+  })
+
+// =============================================================================
+// 操作
+// =============================================================================
+
+/**
+ * 列の並び替えを 昇順 → 降順 → なし の順に切り替える
+ * 並び替えていない列は最後（優先度が最も低い）に追加する
+ */
+export function toggleSort<K extends string>(
+  sort: readonly SortItem<K>[],
+  key: K
+): SortItem<K>[] {
+  const current = sort.find((item) => item.key === key)
+  if (!current) return [...sort, { key, direction: 'asc' }]
+  if (current.direction === 'desc') {
+    return sort.filter((item) => item !== current)
+  }
+  return sort.map((item) =>
+    item === current ? { key, direction: 'desc' } : item
+  )
+}
+
+/**
+ * 列を最優先の並び替えにする（他の列は優先度を下げて残す）
+ */
+export function setPrimarySort<K extends string>(
+  sort: readonly SortItem<K>[],
+  key: K,
+  direction: SortDirection = 'asc'
+): SortItem<K>[] {
+  return [{ key, direction }, ...sort.filter((item) => item.key !== key)]
+}
+
+/**
+ * 見出しに付ける並び替えの表示（▲ 昇順 / ▼ 降順。複数列の場合は優先順位も表示）
+ * 並び替えていない列は空文字列
+ */
+export function toSortIndicator(sort: readonly SortItem[], key: string): string {
+  const index = sort.findIndex((item) => item.key === key)
+  if (index === -1) return ''
+  const arrow = sort[index]!.direction === 'asc' ? '▲' : '▼'
+  return sort.length > 1 ? `${arrow}${index + 1}` : arrow
+}
+
+/**
+ * 並び替えに従って比較する関数を生成（Array.prototype.sort に渡す）
+ * 値が null の行は昇順・降順にかかわらず最後にする
+ */
+export function compareBySort<T, K extends string>(
+  sort: readonly SortItem<K>[],
+  getValue: (row: T, key: K) => string | number | null
+) {
+  return (a: T, b: T): number => {
+    for (const { key, direction } of sort) {
+      const valueA = getValue(a, key)
+      const valueB = getValue(b, key)
+      if (valueA === valueB) continue
+      if (valueA === null) return 1
+      if (valueB === null) return -1
+      const result = valueA < valueB ? -1 : 1
+      return direction === 'desc' ? -result : result
+    }
+    return 0
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * URLキーの組み立て
+ */
+
+const NAMESPACE_SEPARATOR = '.'
+
+/**
+ * URLキーに名前空間の接頭辞を付ける
+ * 同じページに複数のフィルターを置く場合に使う（page → left.page）
+ */
+export function withNamespace(urlKey: string, namespace?: string): string {
+  return namespace ? `${namespace}${NAMESPACE_SEPARATOR}${urlKey}` : urlKey
+}
@@ -0,0 +1,80 @@
+/**
+ * URLパラメータの検証
+ *
+ * 手で編集されたリンクや古いリンクを開いたときに、
+ * パースできない値・補正が必要な値を検出する
+ */
+
+import type { SingleParser } from 'nuqs/server'
+
+// URLに書かれていた値のうち、無視または補正したもの
+export type UrlError = {
+  /** 状態のキー（ネストしたオブジェクト・日付範囲は展開後のキー） */
+  key: string
+  /** URL上のキー */
+  urlKey: string
+  /** URLに書かれていた値 */
+  value: string
+  message: string
+}
+
+export type UrlCheckResult = {
+  errors: UrlError[]
+  /** URLを書き換えるための値（無効な値は null、補正した値は補正後の値） */
+  corrections: Record<string, unknown>
+}
+
+type SearchParamsLike = { get: (name: string) => string | null }
+
+export const INVALID_VALUE_MESSAGE = '無効な値のため無視しました'
+export const CORRECTED_VALUE_MESSAGE = '値を補正しました'
+// 厳密な検証（APIなど）では無視・補正せずにエラーとして返す
+export const INVALID_PARAM_MESSAGE = '無効な値です'
+
+const safeParse = <T>(parser: SingleParser<T>, value: string): T | null => {
+  try {
+    return parser.parse(value)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * URLの値をパーサーで検証
+ * - パースできない値（?page=abc など）は無効としてURLから削除
+ * - パース結果がURLの値と一致しない値（範囲外の数値の丸め、不正な配列要素の除外など）は補正
+ */
+export function checkUrlParams(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parsers: Record<string, SingleParser<any>>,
+  urlKeys: Record<string, string>,
+  searchParams: SearchParamsLike
+): UrlCheckResult {
+  const result: UrlCheckResult = { errors: [], corrections: {} }
+
+  for (const [key, parser] of Object.entries(parsers)) {
+    const urlKey = urlKeys[key] ?? key
+    const value = searchParams.get(urlKey)
+    if (value === null) continue
+
+    const parsed = safeParse(parser, value)
+    if (parsed === null) {
+      result.errors.push({ key, urlKey, value, message: INVALID_VALUE_MESSAGE })
+      result.corrections[key] = null
+      continue
+    }
+
+    const serialize = parser.serialize ?? String
+    if (serialize(parsed) !== value) {
+      result.errors.push({
+        key,
+        urlKey,
+        value,
+        message: CORRECTED_VALUE_MESSAGE,
+      })
+      result.corrections[key] = parsed
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,681 @@
+/**
+ * Zodスキーマ → nuqsパーサーの変換
+ *
+ * useSearchForm から使う。サーバー側でも同じスキーマを使えるよう
+ * クライアント専用のモジュールから分離している
+ */
+
+import {
+  parseAsString,
+  parseAsBoolean,
+  parseAsStringLiteral,
+  parseAsNumberLiteral,
+  type SingleParserBuilder,
+} from "nuqs/server";
+import {
+  z,
+  type ZodObject,
+  type ZodRawShape,
+  type ZodTypeAny,
+  type ZodNumberCheck,
+} from "zod";
+import {
+  formatIsoDate,
+  parseAsBooleanLiteral,
+  parseAsBoundedNumber,
+  parseAsDate,
+  parseAsMultiSelect,
+  parseIsoDate,
+  type NumberConstraints,
+} from "./parsers";
+import { formatSort, parseAsSort } from "./sort";
+import {
+  applyDateRangeRules,
+  toErrorRules,
+  type DateRangeRules,
+} from "./date-rules";
+import { withNamespace } from "./url-keys";
+import type { ApiField, ApiParamMapping } from "./api-params";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ParserConfig = SingleParserBuilder<any> & { defaultValue?: unknown };
+
+/**
+ * ネストしたオブジェクトのURLキーの組み立て方
+ * - camel: date.from → dateFrom（デフォルト）
+ * - dot: date.from → date.from
+ */
+export type NestedKeyStyle = "camel" | "dot";
+
+export type ZodUrlKeyOptions = {
+  namespace?: string;
+  nestedKeys?: NestedKeyStyle;
+};
+
+/**
+ * URLパラメータ1つに対応するフィールド（ネストしたオブジェクトは展開済み）
+ */
+type ZodField = {
+  /** フォーム上のパス（["date", "from"]） */
+  path: string[];
+  /** nuqsの状態のキー（"date.from"） */
+  key: string;
+  /** URLキーの各セグメント（withUrlKeyのエイリアス適用済み） */
+  urlSegments: string[];
+  zodType: ZodTypeAny;
+};
+
+// =============================================================================
+// Zodフィールドのメタデータ
+// =============================================================================
+
+// withUrlKey などで登録した設定を取得
+// Optional/Defaultなどでラップされていても内側の設定を辿る
+function findInWrapped<V>(
+  registry: WeakMap<ZodTypeAny, V>,
+  zodType: ZodTypeAny
+): V | undefined {
+  const value = registry.get(zodType);
+  if (value !== undefined) return value;
+  const innerType = getInnerType(zodType);
+  return innerType ? findInWrapped(registry, innerType) : undefined;
+}
+
+// =============================================================================
+// URLキーのエイリアス（Zodフィールドのメタデータ）
+// =============================================================================
+
+const urlKeyRegistry = new WeakMap<ZodTypeAny, string>();
+
+/**
+ * Zodフィールドに短いURLキーを設定する
+ * フォームの値は元のキー名のまま、URLにはエイリアスで読み書きされる
+ *
+ * @example
+ * const schema = z.object({
+ *   referenceDateType: withUrlKey(z.enum(REFERENCE_DATE_TYPES), "rdt"),
+ * });
+ */
+export function withUrlKey<T extends ZodTypeAny>(zodType: T, urlKey: string): T {
+  urlKeyRegistry.set(zodType, urlKey);
+  return zodType;
+}
+
+// =============================================================================
+// APIパラメータの設定（Zodフィールドのメタデータ）
+// =============================================================================
+
+const apiParamRegistry = new WeakMap<ZodTypeAny, ApiParamMapping>();
+
+/**
+ * ZodフィールドにAPIパラメータの設定（名前・変換・省略条件）を付ける
+ * useSearchForm の toApiParams で使われる
+ *
+ * @example
+ * const schema = z.object({
+ *   devices: withApiParam(z.array(z.enum(DEVICES)), { omitAllSelected: true }),
+ * });
+ */
+export function withApiParam<T extends ZodTypeAny>(
+  zodType: T,
+  mapping: ApiParamMapping
+): T {
+  apiParamRegistry.set(zodType, mapping);
+  return zodType;
+}
+
+// =============================================================================
+// 並び替え（Zodフィールドのメタデータ）
+// =============================================================================
+
+const sortKeysRegistry = new WeakMap<ZodTypeAny, readonly string[]>();
+
+/**
+ * 複数列の並び替えのZodスキーマ（FilterSchema の sort タイプと同じ形式）
+ * 値は { key, direction } の配列で、URLでは "sort=-conversionDate,programId" になる
+ * 許可していない列を含むURLは無視する
+ *
+ * @example
+ * const schema = z.object({
+ *   sort: sortSchema(["conversionDate", "programId"]),
+ * });
+ * // defaultValues: { sort: [] }
+ */
+export function sortSchema<K extends string>(keys: readonly [K, ...K[]]) {
+  const zodType = z.array(
+    z.object({
+      key: z.enum(keys as [K, ...K[]]),
+      direction: z.enum(["asc", "desc"]),
+    })
+  );
+  sortKeysRegistry.set(zodType, keys);
+  return zodType;
+}
+
+// =============================================================================
+// 日付範囲のルール（Zodフィールドのメタデータ）
+// =============================================================================
+
+const dateRangeRulesRegistry = new WeakMap<ZodTypeAny, DateRangeRules>();
+
+// ルールの判定に使う日付（ISO文字列とDateに対応。空・不正な値は null）
+const toRuleDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return value;
+  return typeof value === "string" ? parseIsoDate(value) : null;
+};
+
+/**
+ * 日付範囲（from / to のオブジェクト）に順序・最大期間・未来日のルールを付ける
+ *
+ * - フォームの入力: ルールに違反するとオブジェクト（date）の検証エラーになる
+ * - URLの値: error のルールに違反すると日付範囲がデフォルト値に戻り、
+ *   correct のルールは補正した値（入れ替え・期間を縮める・今日にする）でURLを書き換える
+ *
+ * @example
+ * const schema = z.object({
+ *   date: withDateRangeRules(
+ *     z.object({ from: z.string().date(), to: z.string().date() }),
+ *     { order: "correct", maxDays: { days: 366, mode: "error" }, noFuture: "correct" }
+ *   ),
+ * });
+ */
+export function withDateRangeRules<
+  T extends ZodObject<{ from: ZodTypeAny; to: ZodTypeAny }>,
+>(zodType: T, rules: DateRangeRules) {
+  // フォームの入力は補正せず、すべてのルールをエラーとして表示する
+  const errorRules = toErrorRules(rules);
+  const refined = zodType.superRefine((value, ctx) => {
+    const { from, to } = value as { from: unknown; to: unknown };
+    const range = { from: toRuleDate(from), to: toRuleDate(to) };
+    for (const error of applyDateRangeRules(range, errorRules).errors) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+    }
+  });
+  dateRangeRulesRegistry.set(refined, rules);
+  return refined;
+}
+
+// withDateRangeRules を付けたオブジェクト（展開後のキーの接頭辞とルール）
+function getDateRangeRuleFields(
+  shape: ZodRawShape,
+  parentPath: string[] = []
+): { key: string; rules: DateRangeRules }[] {
+  return Object.entries(shape).flatMap(([key, zodType]) => {
+    const path = [...parentPath, key];
+    const rules = findInWrapped(dateRangeRulesRegistry, zodType);
+    if (rules) return [{ key: path.join("."), rules }];
+
+    const innerType = unwrapZodType(zodType);
+    return innerType._def.typeName === "ZodObject"
+      ? getDateRangeRuleFields((innerType as ZodObject<ZodRawShape>).shape, path)
+      : [];
+  });
+}
+
+/**
+ * withDateRangeRules の correct のルールをフラットな値に適用
+ *
+ * @returns 補正した項目（展開後のキー → 補正後の値。元の値と同じ形式）
+ */
+function correctZodDateRanges<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  const corrections: Record<string, unknown> = {};
+
+  for (const { key, rules } of getDateRangeRuleFields(schema.shape)) {
+    const keys = { from: `${key}.from`, to: `${key}.to` };
+    const range = {
+      from: toRuleDate(values[keys.from]),
+      to: toRuleDate(values[keys.to]),
+    };
+    const result = applyDateRangeRules(range, rules);
+    if (!result.corrected) continue;
+
+    for (const field of ["from", "to"] as const) {
+      const date = result.range[field];
+      if (!date || date.getTime() === range[field]?.getTime()) continue;
+      corrections[keys[field]] =
+        values[keys[field]] instanceof Date ? date : formatIsoDate(date);
+    }
+  }
+
+  return corrections;
+}
+
+// =============================================================================
+// ネストしたオブジェクトの展開
+// =============================================================================
+
+/**
+ * Zodオブジェクトスキーマをフィールドの一覧に展開
+ * ネストしたZodObjectは再帰的に展開する（date: { from, to } → date.from / date.to）
+ */
+function getZodFields(
+  shape: ZodRawShape,
+  parentPath: string[] = [],
+  parentSegments: string[] = []
+): ZodField[] {
+  return Object.entries(shape).flatMap(([key, zodType]) => {
+    const path = [...parentPath, key];
+    const urlSegments = [
+      ...parentSegments,
+      findInWrapped(urlKeyRegistry, zodType) ?? key,
+    ];
+    const innerType = unwrapZodType(zodType);
+
+    if (innerType._def.typeName === "ZodObject") {
+      return getZodFields(
+        (innerType as ZodObject<ZodRawShape>).shape,
+        path,
+        urlSegments
+      );
+    }
+    return [{ path, key: path.join("."), urlSegments, zodType }];
+  });
+}
+
+const joinUrlSegments = (segments: string[], style: NestedKeyStyle) =>
+  style === "dot"
+    ? segments.join(".")
+    : segments
+        .map((segment, index) =>
+          index === 0 ? segment : segment[0]!.toUpperCase() + segment.slice(1)
+        )
+        .join("");
+
+const getAtPath = (values: Record<string, unknown>, path: string[]) =>
+  path.reduce<unknown>(
+    (current, segment) =>
+      current && typeof current === "object"
+        ? (current as Record<string, unknown>)[segment]
+        : undefined,
+    values
+  );
+
+/**
+ * フォームの値（ネスト）をnuqsの状態（フラット）に変換
+ */
+export function flattenZodValues<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    getZodFields(schema.shape).map((field) => [
+      field.key,
+      getAtPath(values, field.path),
+    ])
+  );
+}
+
+/**
+ * フォームの値をURLに書き込む状態に変換
+ * 空文字列・未入力は null にする（URLから削除）
+ */
+export function toZodUrlState<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(flattenZodValues(schema, values)).map(([key, value]) => [
+      key,
+      value === "" || value === undefined ? null : value,
+    ])
+  );
+}
+
+/**
+ * nuqsの状態（フラット）をフォームの値（ネスト）に変換
+ */
+export function unflattenZodValues<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  state: Record<string, unknown>
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const field of getZodFields(schema.shape)) {
+    let current = values;
+    for (const segment of field.path.slice(0, -1)) {
+      current = (current[segment] ??= {}) as Record<string, unknown>;
+    }
+    current[field.path[field.path.length - 1]!] = state[field.key];
+  }
+
+  return values;
+}
+
+/**
+ * ZodオブジェクトスキーマからnuqsのurlKeysオプションを生成
+ * namespace を指定すると全キーに接頭辞を付ける（page → left.page）
+ */
+export function createUrlKeysFromZodSchema<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  { namespace, nestedKeys = "camel" }: ZodUrlKeyOptions = {}
+): Record<string, string> {
+  return Object.fromEntries(
+    getZodFields(schema.shape).map((field) => [
+      field.key,
+      withNamespace(joinUrlSegments(field.urlSegments, nestedKeys), namespace),
+    ])
+  );
+}
+
+/**
+ * Zodスキーマで値を検証し、エラーのあるフィールドとメッセージを返す
+ * 戻り値のキーは createParsersFromZodSchema と同じ展開後のキー（"date.from"）
+ *
+ * オブジェクト単位のエラー（date の refine など）は配下のすべてのフィールドに、
+ * 配列要素のエラーは配列のフィールドに割り当てる。
+ * ルートの refine で path を指定していないエラーはフィールドに割り当てられないため含まない
+ */
+export function findZodFieldErrors<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  values: Record<string, unknown>
+): Record<string, string> {
+  const result = schema.safeParse(values);
+  if (result.success) return {};
+
+  const fieldErrors: Record<string, string> = {};
+  const fieldKeys = getZodFields(schema.shape).map((field) => field.key);
+
+  for (const issue of result.error.issues) {
+    if (issue.path.length === 0) continue;
+    const issueKey = issue.path.join(".");
+
+    for (const key of fieldKeys) {
+      const matches =
+        issueKey === key ||
+        issueKey.startsWith(`${key}.`) ||
+        key.startsWith(`${issueKey}.`);
+      if (matches && !(key in fieldErrors)) {
+        fieldErrors[key] = issue.message;
+      }
+    }
+  }
+
+  return fieldErrors;
+}
+
+// =============================================================================
+// Zodスキーマからnuqsパーサーを生成
+// =============================================================================
+
+/**
+ * ZodNumberのチェック（.int() / .min() / .max() / .multipleOf()）を数値の制約に変換
+ * URLの値が制約を満たさない場合は無視する（デフォルト値が使われる）
+ */
+function getNumberConstraints(zodType: ZodTypeAny): NumberConstraints {
+  const checks = (zodType._def.checks ?? []) as ZodNumberCheck[];
+  const isInt = checks.some((check) => check.kind === "int");
+  const constraints: NumberConstraints = isInt ? { step: 1 } : {};
+
+  for (const check of checks) {
+    switch (check.kind) {
+      case "min":
+        // 整数の .gt() は1つ上の値を下限にする（小数は境界値を含めて扱う）
+        constraints.min = !check.inclusive && isInt ? check.value + 1 : check.value;
+        break;
+      case "max":
+        constraints.max = !check.inclusive && isInt ? check.value - 1 : check.value;
+        break;
+      case "multipleOf":
+        constraints.step = check.value;
+        break;
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * ラッパー型の内側の型を取得
+ * Optional / Nullable / Default / Catch / Readonly / Effects（refine・transform） / Branded
+ * transform の場合、URLには変換前（入力側）の型で保存する
+ */
+function getInnerType(zodType: ZodTypeAny): ZodTypeAny | undefined {
+  switch (zodType._def.typeName) {
+    case "ZodOptional":
+    case "ZodNullable":
+    case "ZodDefault":
+    case "ZodCatch":
+    case "ZodReadonly":
+      return zodType._def.innerType;
+    case "ZodEffects":
+      return zodType._def.schema;
+    case "ZodBranded":
+      return zodType._def.type;
+    default:
+      return undefined;
+  }
+}
+
+// ラッパー型をすべて外した型を取得
+function unwrapZodType(zodType: ZodTypeAny): ZodTypeAny {
+  const innerType = getInnerType(zodType);
+  return innerType ? unwrapZodType(innerType) : zodType;
+}
+
+/**
+ * ZodNativeEnumの値を取得（数値enumの逆引きキーは除く）
+ */
+function getNativeEnumValues(enumObject: Record<string, string | number>) {
+  return Object.keys(enumObject)
+    .filter((key) => typeof enumObject[enumObject[key]!] !== "number")
+    .map((key) => enumObject[key]!);
+}
+
+/**
+ * リテラル値の一覧から単一選択のパーサーを生成
+ * 文字列・数値・真偽値が混在する場合は変換できない（null を返す）
+ */
+function literalsToParser(values: readonly unknown[]): ParserConfig | null {
+  if (values.every((value) => typeof value === "string")) {
+    return parseAsStringLiteral(values as readonly string[]);
+  }
+  if (values.every((value) => typeof value === "number")) {
+    return parseAsNumberLiteral(values as readonly number[]);
+  }
+  if (values.every((value) => typeof value === "boolean")) {
+    return parseAsBooleanLiteral(values as readonly boolean[]);
+  }
+  return null;
+}
+
+/**
+ * Zodの型からnuqsのパーサーを生成
+ * URLパラメータに変換できない型の場合はフィールド名付きでエラーを投げる
+ *
+ * @param fieldType - 変換するZodの型
+ * @param fieldName - エラーメッセージ用のフィールド名
+ */
+function zodToNuqsParser(fieldType: ZodTypeAny, fieldName: string): ParserConfig {
+  // ラッパー型は内側の型で判定（z.coerce.* は元の型と同じtypeNameになる）
+  const zodType = unwrapZodType(fieldType);
+  const typeName = zodType._def.typeName as string;
+  let parser: ParserConfig | null = null;
+
+  // sortSchema はオブジェクトの配列だが、URLでは1つのパラメータにする
+  const sortKeys = findInWrapped(sortKeysRegistry, fieldType);
+  if (sortKeys) return parseAsSort(sortKeys).withDefault([]);
+
+  switch (typeName) {
+    case "ZodString":
+      parser = parseAsString;
+      break;
+
+    case "ZodNumber":
+      parser = parseAsBoundedNumber(getNumberConstraints(zodType));
+      break;
+
+    case "ZodBoolean":
+      parser = parseAsBoolean;
+      break;
+
+    case "ZodDate":
+      parser = parseAsDate;
+      break;
+
+    case "ZodEnum":
+      parser = parseAsStringLiteral(zodType._def.values as readonly string[]);
+      break;
+
+    case "ZodNativeEnum":
+      parser = literalsToParser(getNativeEnumValues(zodType._def.values));
+      break;
+
+    case "ZodLiteral":
+      parser = literalsToParser([zodType._def.value]);
+      break;
+
+    case "ZodUnion": {
+      // z.union([z.literal("A"), z.literal("B")]) のみ対応
+      const options = zodType._def.options as ZodTypeAny[];
+      if (options.every((option) => option._def.typeName === "ZodLiteral")) {
+        parser = literalsToParser(options.map((option) => option._def.value));
+      }
+      break;
+    }
+
+    case "ZodArray": {
+      // 要素の型のパーサーを使ってカンマ区切りの配列にする（配列の配列は不可）
+      const elementType = zodType._def.type as ZodTypeAny;
+      if (unwrapZodType(elementType)._def.typeName !== "ZodArray") {
+        const elementParser = zodToNuqsParser(elementType, `${fieldName}[]`);
+        parser = parseAsMultiSelect(elementParser).withDefault([]);
+      }
+      break;
+    }
+  }
+
+  if (!parser) {
+    throw new Error(
+      `[useSearchForm] フィールド "${fieldName}" の型 ${typeName} はURLパラメータに変換できません`
+    );
+  }
+  return parser;
+}
+
+/**
+ * Zodオブジェクトスキーマからnuqsのパーサーオブジェクトを生成
+ * ネストしたオブジェクトは展開され、キーは "date.from" のようなパスになる
+ * デフォルト値を指定した項目は、デフォルトと同じ値がURLから削除される
+ */
+export function createParsersFromZodSchema<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  defaultValues: Record<string, unknown> = {}
+): Record<string, ParserConfig> {
+  const parsers: Record<string, ParserConfig> = {};
+
+  for (const { path, key, zodType } of getZodFields(schema.shape)) {
+    const parser = zodToNuqsParser(zodType, key);
+    const defaultValue = getAtPath(defaultValues, path);
+    parsers[key] =
+      defaultValue === undefined || defaultValue === null
+        ? parser
+        : (parser as SingleParserBuilder<unknown>).withDefault(defaultValue);
+  }
+
+  return parsers;
+}
+
+/**
+ * nuqsの状態（フラット）からフォームに渡す値を決める
+ * URLに値がない項目と、Zodのルールに違反する項目はデフォルト値を使う
+ * 日付範囲のルール（withDateRangeRules）の correct のルールは補正した値を使う
+ * useSearchForm とサーバー側のキャッシュで同じ値になるよう共通化している
+ *
+ * @returns values: フラットな値 / errors: ルール違反でデフォルト値に戻した項目のメッセージ
+ *   / corrections: 日付範囲のルールで補正した項目の値
+ */
+export function resolveZodUrlValues<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  state: Record<string, unknown>,
+  defaultValues: Record<string, unknown>
+): {
+  values: Record<string, unknown>;
+  errors: Record<string, string>;
+  corrections: Record<string, unknown>;
+} {
+  const flatDefaultValues = flattenZodValues(schema, defaultValues);
+  const values = Object.fromEntries(
+    Object.entries(state).map(([key, value]) => [
+      key,
+      value ?? flatDefaultValues[key],
+    ])
+  );
+
+  const corrections = correctZodDateRanges(schema, values);
+  Object.assign(values, corrections);
+
+  const errors = findZodFieldErrors(schema, unflattenZodValues(schema, values));
+  for (const key of Object.keys(errors)) {
+    values[key] = flatDefaultValues[key];
+    delete corrections[key];
+  }
+
+  return { values, errors, corrections };
+}
+
+/**
+ * テキスト入力の項目（ネストしていない z.string() のフィールド）のキー
+ * 取り消し履歴で、続けて入力した文字を1つの操作にまとめるために使う
+ */
+export function getZodTextFieldKeys<T extends ZodRawShape>(
+  schema: ZodObject<T>
+): string[] {
+  return getZodFields(schema.shape)
+    .filter(
+      ({ path, zodType }) =>
+        path.length === 1 && unwrapZodType(zodType)._def.typeName === "ZodString"
+    )
+    .map(({ key }) => key);
+}
+
+/**
+ * フォームの値をAPI用のフィールドに展開
+ * パラメータ名は withApiParam の name、省略時はパスをつなげた名前（date.from → dateFrom）
+ * URLキーのエイリアス（withUrlKey）はAPIには使わない
+ * 並び替え（sortSchema）はURLと同じ形式（-conversionDate,programId）で渡す
+ */
+export function getZodApiFields<T extends ZodRawShape>(
+  schema: ZodObject<T>,
+  values: Record<string, unknown>
+): ApiField[] {
+  return getZodFields(schema.shape).map(({ path, zodType }) => {
+    const mapping = findInWrapped(apiParamRegistry, zodType);
+    return {
+      key: joinUrlSegments(path, "camel"),
+      value: getAtPath(values, path),
+      mapping: findInWrapped(sortKeysRegistry, zodType)
+        ? { transform: formatSort, ...mapping }
+        : mapping,
+      options: getArrayOptions(zodType),
+    };
+  });
+}
+
+// 複数選択（enum・リテラルの配列）の選択肢を取得
+function getArrayOptions(fieldType: ZodTypeAny): readonly unknown[] | undefined {
+  const zodType = unwrapZodType(fieldType);
+  if (zodType._def.typeName !== "ZodArray") return undefined;
+
+  const elementType = unwrapZodType(zodType._def.type as ZodTypeAny);
+  switch (elementType._def.typeName as string) {
+    case "ZodEnum":
+      return elementType._def.values as readonly string[];
+    case "ZodNativeEnum":
+      return getNativeEnumValues(elementType._def.values);
+    case "ZodUnion": {
+      const options = elementType._def.options as ZodTypeAny[];
+      return options.every((option) => option._def.typeName === "ZodLiteral")
+        ? options.map((option) => option._def.value)
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
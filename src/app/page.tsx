@@ -8,13 +8,13 @@ import styles from './styles/page.module.css'
 // フィルタースキーマを定義するだけ！
 // 新しいフィルターを追加したい場合はここに追加するだけ
 const filterSchema = {
-  programId: { type: 'string' },
+  programId: { type: 'string', debounceMs: 300 },
   statuses: { type: 'stringLiteralArray', options: APPROVAL_STATUSES },
   devices: { type: 'stringLiteralArray', options: DEVICES },
 } as const satisfies FilterSchema
 
 export default function Demo() {
-  const { filters, setFilter, toggleArrayItem, clearFilters } =
+  const { filters, setFilter, toggleArrayItem, clearFilters, flush } =
     useFilters(filterSchema)
 
   return (
@@ -29,6 +29,7 @@ export default function Demo() {
           label="プログラムID"
           value={filters.programId}
           onChange={(v) => setFilter('programId', v)}
+          onBlur={flush}
           placeholder="例: PRG-001"
         />
 